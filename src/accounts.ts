@@ -111,6 +111,28 @@ function resolveNextcloudTalkSecret(
   return { secret: "", source: "none" };
 }
 
+/**
+ * Resolve the optional API user credentials (room lookups, typing, chat API).
+ * Returns undefined unless both user and password are available.
+ */
+export function resolveNextcloudTalkApiCredentials(
+  account: ResolvedNextcloudTalkAccount,
+): { apiUser: string; apiPassword: string } | undefined {
+  const apiUser = account.config.apiUser?.trim();
+  if (!apiUser) {
+    return undefined;
+  }
+  let apiPassword = account.config.apiPassword?.trim();
+  if (!apiPassword && account.config.apiPasswordFile) {
+    try {
+      apiPassword = readFileSync(account.config.apiPasswordFile, "utf-8").trim();
+    } catch {
+      // File not found or unreadable.
+    }
+  }
+  return apiPassword ? { apiUser, apiPassword } : undefined;
+}
+
 export function resolveNextcloudTalkAccount(params: {
   cfg: CoreConfig;
   accountId?: string | null;
@@ -0,0 +1,17 @@
+import { jsonResult, readStringParam, type ChannelMessageActionAdapter } from "openclaw/plugin-sdk";
+import { deleteMessageNextcloudTalk } from "./send.js";
+
+export const nextcloudTalkMessageActions: ChannelMessageActionAdapter = {
+  listActions: () => ["delete"],
+  handleAction: async ({ action, params, accountId }) => {
+    if (action === "delete") {
+      const to = readStringParam(params, "to", { required: true });
+      const messageId = readStringParam(params, "messageId", { required: true });
+      const result = await deleteMessageNextcloudTalk(to, messageId, {
+        accountId: accountId ?? undefined,
+      });
+      return jsonResult({ ok: true, ...result });
+    }
+    throw new Error(`Action ${action} is not supported for provider nextcloud-talk.`);
+  },
+};
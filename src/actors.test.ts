@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatNextcloudTalkActorKey,
+  matchesNextcloudTalkAllowEntry,
+  parseNextcloudTalkActorId,
+} from "./actors.js";
+
+describe("nextcloud-talk actors", () => {
+  it("parses Talk actor ids into type and id", () => {
+    expect(parseNextcloudTalkActorId("users/alice")).toEqual({ type: "user", id: "alice" });
+    expect(parseNextcloudTalkActorId("guests/4f2a")).toEqual({ type: "guest", id: "4f2a" });
+    expect(parseNextcloudTalkActorId("federated_users/bob@other.cloud")).toEqual({
+      type: "federated",
+      id: "bob@other.cloud",
+    });
+    expect(parseNextcloudTalkActorId("bots/bot-123")).toEqual({ type: "bot", id: "bot-123" });
+    expect(parseNextcloudTalkActorId("alice")).toEqual({ type: "user", id: "alice" });
+  });
+
+  it("formats stable sender keys per actor type", () => {
+    expect(formatNextcloudTalkActorKey(parseNextcloudTalkActorId("users/Alice"))).toBe("alice");
+    expect(formatNextcloudTalkActorKey(parseNextcloudTalkActorId("guests/4f2a"))).toBe(
+      "guest:4f2a",
+    );
+    const federated = parseNextcloudTalkActorId("federated_users/bob@other.cloud");
+    expect(formatNextcloudTalkActorKey(federated)).toBe("federated:bob@other.cloud");
+    expect(parseNextcloudTalkActorId(formatNextcloudTalkActorKey(federated))).toEqual(federated);
+  });
+
+  it("matches typed allowlist entries and patterns", () => {
+    const alice = parseNextcloudTalkActorId("users/alice");
+    const guest = parseNextcloudTalkActorId("guests/4f2a");
+    const bob = parseNextcloudTalkActorId("federated_users/bob@partner.cloud");
+
+    expect(matchesNextcloudTalkAllowEntry("alice", alice)).toBe(true);
+    expect(matchesNextcloudTalkAllowEntry("users/alice", alice)).toBe(true);
+    expect(matchesNextcloudTalkAllowEntry("alice", guest)).toBe(false);
+    expect(matchesNextcloudTalkAllowEntry("guest:*", guest)).toBe(true);
+    expect(matchesNextcloudTalkAllowEntry("guest:*", alice)).toBe(false);
+    expect(matchesNextcloudTalkAllowEntry("federated:*@partner.cloud", bob)).toBe(true);
+    expect(matchesNextcloudTalkAllowEntry("federated:*@other.cloud", bob)).toBe(false);
+    expect(matchesNextcloudTalkAllowEntry("bob@partner.cloud", bob)).toBe(false);
+  });
+});
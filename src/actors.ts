@@ -0,0 +1,82 @@
+/**
+ * Nextcloud actor ids (`users/alice`, `guests/<hash>`, `federated_users/bob@other.cloud`,
+ * `bots/<id>`) parsed into a type and id, plus the allowlist syntax that targets them:
+ *
+ * - `alice`, `user:alice` or `users/alice` — a local user
+ * - `guest:*`, `guest:<id>` — guests (including email-invited guests)
+ * - `federated:*`, `federated:*@partner.cloud`, `federated:bob@partner.cloud`
+ * - `bot:*`, `bot:<id>`
+ */
+
+export type NextcloudTalkActorType = "user" | "guest" | "federated" | "bot";
+
+export type NextcloudTalkActor = {
+  type: NextcloudTalkActorType;
+  id: string;
+};
+
+const ACTOR_TYPE_PREFIXES: Record<string, NextcloudTalkActorType> = {
+  users: "user",
+  guests: "guest",
+  emails: "guest",
+  federated_users: "federated",
+  bots: "bot",
+};
+
+const KEY_PREFIXES: Record<string, NextcloudTalkActorType> = {
+  user: "user",
+  guest: "guest",
+  federated: "federated",
+  bot: "bot",
+};
+
+/**
+ * Parse an actor id as sent by Talk (`<actorType>/<id>`) or as stored in config and
+ * session keys (`<type>:<id>`, bare ids are users).
+ */
+export function parseNextcloudTalkActorId(raw: string): NextcloudTalkActor {
+  const value = raw.trim();
+  const slash = value.indexOf("/");
+  if (slash > 0) {
+    const type = ACTOR_TYPE_PREFIXES[value.slice(0, slash).toLowerCase()];
+    if (type) {
+      return { type, id: value.slice(slash + 1) };
+    }
+  }
+  const colon = value.indexOf(":");
+  if (colon > 0) {
+    const type = KEY_PREFIXES[value.slice(0, colon).toLowerCase()];
+    if (type) {
+      return { type, id: value.slice(colon + 1) };
+    }
+  }
+  return { type: "user", id: value };
+}
+
+/**
+ * Stable sender key used for session keys, pairing and allowlists. Users keep their
+ * bare id; other actor types are prefixed so they never collide with user ids.
+ */
+export function formatNextcloudTalkActorKey(actor: NextcloudTalkActor): string {
+  const id = actor.id.toLowerCase();
+  return actor.type === "user" ? id : `${actor.type}:${id}`;
+}
+
+function matchesPattern(pattern: string, id: string): boolean {
+  if (pattern === "*") {
+    return true;
+  }
+  if (pattern.startsWith("*@")) {
+    return id.endsWith(pattern.slice(1));
+  }
+  return pattern === id;
+}
+
+/** Whether a normalized (lowercased, channel-prefix-free) allowlist entry matches an actor. */
+export function matchesNextcloudTalkAllowEntry(entry: string, actor: NextcloudTalkActor): boolean {
+  if (entry === "*") {
+    return true;
+  }
+  const target = parseNextcloudTalkActorId(entry);
+  return target.type === actor.type && matchesPattern(target.id, actor.id.toLowerCase());
+}
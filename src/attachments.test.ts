@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  buildNextcloudTalkFileUrl,
+  buildNextcloudTalkPreviewUrl,
+  formatNextcloudTalkAttachmentFallback,
+  resolveNextcloudTalkInboundMedia,
+} from "./attachments.js";
+import type { NextcloudTalkRichObjectParameter } from "./types.js";
+
+const image: NextcloudTalkRichObjectParameter = {
+  type: "file",
+  id: "117924",
+  name: "photo (3).png",
+  path: "Talk/photo (3).png",
+  link: "https://cloud.example.com/f/117924",
+  mimetype: "image/png",
+};
+
+describe("nextcloud-talk attachments", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("builds the WebDAV URL of the API user's copy", () => {
+    expect(
+      buildNextcloudTalkFileUrl({
+        file: image,
+        baseUrl: "https://cloud.example.com",
+        apiUser: "bot-user",
+      }),
+    ).toBe("https://cloud.example.com/remote.php/dav/files/bot-user/Talk/photo%20(3).png");
+  });
+
+  it("falls back to the share link without an API user", () => {
+    expect(buildNextcloudTalkFileUrl({ file: image, baseUrl: "https://cloud.example.com" })).toBe(
+      "https://cloud.example.com/f/117924",
+    );
+  });
+
+  it("builds a bounded preview URL for a file id", () => {
+    expect(
+      buildNextcloudTalkPreviewUrl({
+        baseUrl: "https://cloud.example.com",
+        fileId: "117924",
+        maxDimension: 1024,
+      }),
+    ).toBe(
+      "https://cloud.example.com/index.php/core/preview?fileId=117924&x=1024&y=1024&a=1&forceIcon=0",
+    );
+  });
+
+  it("formats link text for files that were not downloaded", () => {
+    const text = formatNextcloudTalkAttachmentFallback({
+      files: [image, { type: "file", id: "2", name: "notes.txt", mimetype: "text/plain" }],
+      baseUrl: "https://cloud.example.com",
+    });
+    expect(text).toBe(
+      "[User shared an image: photo (3).png]\n" +
+        "Attachment: https://cloud.example.com/f/117924\n" +
+        "[User shared a file: notes.txt]",
+    );
+  });
+
+  it("stops a download without content-length once it passes the media limit", async () => {
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled += 1;
+        controller.enqueue(new Uint8Array(512 * 1024));
+      },
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(body, { status: 200 })),
+    );
+    const log = vi.fn();
+
+    const result = await resolveNextcloudTalkInboundMedia({
+      account: {
+        accountId: "default",
+        enabled: true,
+        baseUrl: "https://cloud.example.com",
+        secret: "secret",
+        secretSource: "config",
+        config: { apiUser: "bot-user", apiPassword: "pw", mediaMaxMb: 1 },
+      },
+      files: [{ ...image, "preview-available": "no" }],
+      runtime: { log, error: vi.fn(), exit: vi.fn() as never },
+    });
+
+    expect(result.media).toEqual([]);
+    expect(result.bodyText).toContain("[User shared an image: photo (3).png]");
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("exceeds media limit"));
+    expect(pulled).toBeLessThan(5);
+  });
+});
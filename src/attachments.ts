@@ -0,0 +1,344 @@
+/**
+ * Inbound file shares: download them with the account's API user so the agent gets
+ * real media attachments instead of a WebDAV link it cannot open.
+ *
+ * Files with a server-side preview are fetched as a resized image through the
+ * preview API; their originals are only downloaded when the agent asks for them
+ * (see the `nextcloud_talk_download_file` tool). Files that cannot be fetched at all (no
+ * credentials, too large, HTTP errors) fall back to an `Attachment: <url>` line.
+ */
+
+import type { RuntimeEnv } from "openclaw/plugin-sdk";
+import {
+  type ResolvedNextcloudTalkAccount,
+  resolveNextcloudTalkApiCredentials,
+} from "./accounts.js";
+import { getNextcloudTalkRuntime } from "./runtime.js";
+import { resolveNextcloudTalkStatePath } from "./state-file.js";
+import { createNextcloudTalkStateMap, type NextcloudTalkStateMap } from "./state-map.js";
+import type { NextcloudTalkRichObjectParameter } from "./types.js";
+
+const DEFAULT_MEDIA_MAX_MB = 20;
+const DEFAULT_PREVIEW_MAX_DIMENSION = 1024;
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+const MEDIA_CACHE_MAX = 200;
+const OFFERED_ORIGINALS_MAX = 500;
+
+/** Saved media by account, file id, etag and variant; only files with an etag are cached. */
+const mediaCache = new Map<string, NextcloudTalkInboundMedia>();
+/**
+ * Files whose original was held back in favour of a preview, by account and then file
+ * id. Persisted so the download tool still works after a restart.
+ */
+const offeredOriginals = new Map<string, NextcloudTalkStateMap<NextcloudTalkRichObjectParameter>>();
+
+function resolveOfferedOriginals(
+  accountId: string,
+): NextcloudTalkStateMap<NextcloudTalkRichObjectParameter> {
+  let originals = offeredOriginals.get(accountId);
+  if (!originals) {
+    originals = createNextcloudTalkStateMap({
+      filePath: resolveNextcloudTalkStatePath(accountId, "offered-files.json"),
+      maxEntries: OFFERED_ORIGINALS_MAX,
+    });
+    offeredOriginals.set(accountId, originals);
+  }
+  return originals;
+}
+
+function setBounded<T>(map: Map<string, T>, max: number, key: string, value: T): void {
+  map.delete(key);
+  if (map.size >= max) {
+    const oldest = map.keys().next().value;
+    if (oldest !== undefined) map.delete(oldest);
+  }
+  map.set(key, value);
+}
+
+export type NextcloudTalkInboundMedia = {
+  path: string;
+  contentType?: string;
+};
+
+export function resolveNextcloudTalkMediaMaxBytes(account: ResolvedNextcloudTalkAccount): number {
+  return (account.config.mediaMaxMb ?? DEFAULT_MEDIA_MAX_MB) * 1024 * 1024;
+}
+
+/** Longest edge of requested previews; 0 disables previews. */
+function resolvePreviewMaxDimension(account: ResolvedNextcloudTalkAccount): number {
+  return account.config.mediaPreviewMaxDimension ?? DEFAULT_PREVIEW_MAX_DIMENSION;
+}
+
+export function buildNextcloudTalkPreviewUrl(params: {
+  baseUrl: string;
+  fileId: string;
+  maxDimension: number;
+}): string {
+  const query = new URLSearchParams({
+    fileId: params.fileId,
+    x: String(params.maxDimension),
+    y: String(params.maxDimension),
+    a: "1",
+    forceIcon: "0",
+  });
+  return `${params.baseUrl}/index.php/core/preview?${query}`;
+}
+
+/**
+ * WebDAV URL of a shared file in the API user's storage, or the share link when
+ * no API user is configured.
+ */
+export function buildNextcloudTalkFileUrl(params: {
+  file: NextcloudTalkRichObjectParameter;
+  baseUrl: string;
+  apiUser?: string;
+}): string | undefined {
+  const { file, baseUrl, apiUser } = params;
+  if (baseUrl && apiUser && file.path) {
+    const encodedPath = file.path.split("/").map(encodeURIComponent).join("/");
+    return `${baseUrl}/remote.php/dav/files/${encodeURIComponent(apiUser)}/${encodedPath}`;
+  }
+  return file.link || undefined;
+}
+
+/** Body lines describing files the agent only gets as links. */
+export function formatNextcloudTalkAttachmentFallback(params: {
+  files: NextcloudTalkRichObjectParameter[];
+  baseUrl: string;
+  apiUser?: string;
+}): string {
+  return params.files
+    .map((file) => {
+      const kind = file.mimetype?.startsWith("image/") ? "an image" : "a file";
+      const url = buildNextcloudTalkFileUrl({ ...params, file });
+      return [`[User shared ${kind}: ${file.name}]`, url ? `Attachment: ${url}` : ""]
+        .filter(Boolean)
+        .join("\n");
+    })
+    .join("\n");
+}
+
+async function downloadFile(params: {
+  url: string;
+  auth: string;
+  maxBytes: number;
+}): Promise<{ buffer: Buffer; contentType?: string }> {
+  const response = await fetch(params.url, {
+    method: "GET",
+    headers: { Authorization: `Basic ${params.auth}` },
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`download failed (${response.status})`);
+  }
+  const declared = Number(response.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > params.maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`file exceeds media limit (${declared} bytes)`);
+  }
+  const buffer = await readBodyWithLimit(response, params.maxBytes);
+  return { buffer, contentType: response.headers.get("content-type")?.split(";")[0] };
+}
+
+/**
+ * Read a response body, giving up as soon as it passes `maxBytes`; the declared
+ * content-length cannot be relied on (it is absent for chunked downloads).
+ */
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error(`file exceeds media limit (more than ${maxBytes} bytes)`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Download one variant of a file into the media store, reusing cached copies. */
+async function fetchMedia(params: {
+  account: ResolvedNextcloudTalkAccount;
+  file: NextcloudTalkRichObjectParameter;
+  variant: "original" | `preview-${number}`;
+  url: string;
+  auth: string;
+  maxBytes: number;
+}): Promise<NextcloudTalkInboundMedia> {
+  const { account, file, variant, maxBytes } = params;
+  const etag = typeof file.etag === "string" && file.etag ? file.etag : undefined;
+  const cacheKey = etag ? `${account.accountId}:${file.id}:${etag}:${variant}` : undefined;
+  const cached = cacheKey ? mediaCache.get(cacheKey) : undefined;
+  if (cached) {
+    return cached;
+  }
+
+  const { buffer, contentType } = await downloadFile(params);
+  const saved = await getNextcloudTalkRuntime().channel.media.saveMediaBuffer(
+    buffer,
+    variant === "original" ? (file.mimetype ?? contentType) : (contentType ?? "image/png"),
+    "inbound",
+    maxBytes,
+    file.name,
+  );
+  const media = { path: saved.path, contentType: saved.contentType ?? file.mimetype };
+  if (cacheKey) {
+    setBounded(mediaCache, MEDIA_CACHE_MAX, cacheKey, media);
+  }
+  return media;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+function formatPreviewNote(file: NextcloudTalkRichObjectParameter): string {
+  const size = Number(file.size);
+  const original = Number.isFinite(size) && size > 0 ? `original, ${formatSize(size)}` : "original";
+  return (
+    `[Resized preview of ${file.name} attached; ${original} available ` +
+    `via the nextcloud_talk_download_file tool with fileId ${file.id}]`
+  );
+}
+
+function encodeBasicAuth(credentials: { apiUser: string; apiPassword: string }): string {
+  return Buffer.from(`${credentials.apiUser}:${credentials.apiPassword}`, "utf-8").toString(
+    "base64",
+  );
+}
+
+async function fetchOriginal(params: {
+  account: ResolvedNextcloudTalkAccount;
+  file: NextcloudTalkRichObjectParameter;
+  credentials: { apiUser: string; apiPassword: string };
+  maxBytes: number;
+}): Promise<NextcloudTalkInboundMedia> {
+  const { account, file, credentials, maxBytes } = params;
+  const url = file.path
+    ? buildNextcloudTalkFileUrl({ file, baseUrl: account.baseUrl, apiUser: credentials.apiUser })
+    : undefined;
+  if (!url) {
+    throw new Error("file has no path in the API user's storage");
+  }
+  const declaredSize = Number(file.size);
+  if (Number.isFinite(declaredSize) && declaredSize > maxBytes) {
+    throw new Error(`file exceeds media limit (${declaredSize} bytes)`);
+  }
+  return fetchMedia({
+    account,
+    file,
+    variant: "original",
+    url,
+    auth: encodeBasicAuth(credentials),
+    maxBytes,
+  });
+}
+
+/**
+ * Download shared files (or their previews) into the runtime media store. Returns
+ * the saved media and body text: preview notes, plus link fallbacks for every file
+ * that could not be fetched.
+ */
+export async function resolveNextcloudTalkInboundMedia(params: {
+  account: ResolvedNextcloudTalkAccount;
+  files: NextcloudTalkRichObjectParameter[];
+  runtime?: RuntimeEnv;
+}): Promise<{ media: NextcloudTalkInboundMedia[]; bodyText: string }> {
+  const { account, files, runtime } = params;
+  const credentials = resolveNextcloudTalkApiCredentials(account);
+  if (!credentials) {
+    return {
+      media: [],
+      bodyText: formatNextcloudTalkAttachmentFallback({ files, baseUrl: account.baseUrl }),
+    };
+  }
+
+  const maxBytes = resolveNextcloudTalkMediaMaxBytes(account);
+  const maxDimension = resolvePreviewMaxDimension(account);
+  const media: NextcloudTalkInboundMedia[] = [];
+  const notes: string[] = [];
+  const failed: NextcloudTalkRichObjectParameter[] = [];
+
+  for (const file of files) {
+    if (maxDimension > 0 && file["preview-available"] === "yes") {
+      try {
+        media.push(
+          await fetchMedia({
+            account,
+            file,
+            variant: `preview-${maxDimension}`,
+            url: buildNextcloudTalkPreviewUrl({
+              baseUrl: account.baseUrl,
+              fileId: file.id,
+              maxDimension,
+            }),
+            auth: encodeBasicAuth(credentials),
+            maxBytes,
+          }),
+        );
+        resolveOfferedOriginals(account.accountId).set(file.id, file);
+        notes.push(formatPreviewNote(file));
+        continue;
+      } catch (err) {
+        runtime?.log?.(
+          `nextcloud-talk: preview of ${file.name} unavailable, downloading original: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+    try {
+      media.push(await fetchOriginal({ account, file, credentials, maxBytes }));
+    } catch (err) {
+      runtime?.log?.(
+        `nextcloud-talk: attachment ${file.name} not downloaded: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      failed.push(file);
+    }
+  }
+
+  const fallback = formatNextcloudTalkAttachmentFallback({
+    files: failed,
+    baseUrl: account.baseUrl,
+    apiUser: credentials.apiUser,
+  });
+  return { media, bodyText: [...notes, fallback].filter(Boolean).join("\n") };
+}
+
+/**
+ * Download the original of a file that was previously delivered as a preview.
+ * Throws when the file id is unknown or the download fails.
+ */
+export async function fetchNextcloudTalkOriginalAttachment(params: {
+  account: ResolvedNextcloudTalkAccount;
+  fileId: string;
+}): Promise<NextcloudTalkInboundMedia & { name: string }> {
+  const { account, fileId } = params;
+  const file = resolveOfferedOriginals(account.accountId).get(fileId);
+  if (!file) {
+    throw new Error(
+      `Unknown Nextcloud Talk file id ${fileId} (only previewed files can be fetched)`,
+    );
+  }
+  const credentials = resolveNextcloudTalkApiCredentials(account);
+  if (!credentials) {
+    throw new Error("Nextcloud Talk apiUser/apiPassword are required to download files");
+  }
+  const media = await fetchOriginal({
+    account,
+    file,
+    credentials,
+    maxBytes: resolveNextcloudTalkMediaMaxBytes(account),
+  });
+  return { ...media, name: file.name };
+}
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { catchUpNextcloudTalkRooms } from "./catch-up.js";
+import type { NextcloudTalkChatMessage } from "./chat-api.js";
+import type { NextcloudTalkCursorStore } from "./cursor-store.js";
+import type { NextcloudTalkInboundMessage } from "./types.js";
+
+const NOW = 1_700_000_000_000;
+
+function makeChatMessage(id: number, minutesAgo: number): NextcloudTalkChatMessage {
+  return {
+    id,
+    token: "room123",
+    actorType: "users",
+    actorId: "alice",
+    actorDisplayName: "Alice",
+    timestamp: Math.floor((NOW - minutesAgo * 60_000) / 1000),
+    message: `message ${id}`,
+    messageParameters: [],
+    messageType: "comment",
+  };
+}
+
+function makeCursors(initial: Record<string, number>): NextcloudTalkCursorStore {
+  const rooms = { ...initial };
+  return {
+    get: (roomToken) => rooms[roomToken],
+    advance: (roomToken, messageId) => {
+      rooms[roomToken] = Math.max(rooms[roomToken] ?? 0, messageId);
+    },
+    rooms: () => Object.keys(rooms),
+    flush: async () => {},
+  };
+}
+
+function stubChatResponse(messages: NextcloudTalkChatMessage[]) {
+  const fetchMock = vi.fn(
+    async () => new Response(JSON.stringify({ ocs: { data: messages } }), { status: 200 }),
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+describe("nextcloud-talk catch-up", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("replays messages above the cursor within the age window", async () => {
+    stubChatResponse([
+      makeChatMessage(13, 1),
+      makeChatMessage(10, 200),
+      makeChatMessage(11, 90),
+      makeChatMessage(12, 5),
+    ]);
+    const cursors = makeCursors({ room123: 10 });
+    const seen: NextcloudTalkInboundMessage[] = [];
+    const skipped: number[] = [];
+
+    const replayed = await catchUpNextcloudTalkRooms({
+      baseUrl: "https://cloud.example.com",
+      apiUser: "bot-user",
+      apiPassword: "secret",
+      cursors,
+      now: NOW,
+      onMessage: (message) => seen.push(message),
+      onSkip: (_roomToken, messageId) => skipped.push(messageId),
+    });
+
+    expect(replayed).toBe(2);
+    expect(seen.map((message) => message.messageId)).toEqual(["12", "13"]);
+    expect(skipped).toEqual([11]);
+    // The cursor only moves once the replayed messages are processed.
+    expect(cursors.get("room123")).toBe(10);
+  });
+
+  it("moves the cursor past unread messages older than the fetched page", async () => {
+    stubChatResponse([makeChatMessage(20, 2), makeChatMessage(21, 1)]);
+    const cursors = makeCursors({ room123: 10 });
+
+    await catchUpNextcloudTalkRooms({
+      baseUrl: "https://cloud.example.com",
+      apiUser: "bot-user",
+      apiPassword: "secret",
+      cursors,
+      maxMessages: 2,
+      now: NOW,
+      onMessage: () => {},
+      onSkip: () => {},
+    });
+
+    expect(cursors.get("room123")).toBe(19);
+  });
+
+  it("skips rooms without a cursor and reports fetch failures", async () => {
+    const fetchMock = vi.fn(async () => new Response("", { status: 500 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const onError = vi.fn();
+
+    const replayed = await catchUpNextcloudTalkRooms({
+      baseUrl: "https://cloud.example.com",
+      apiUser: "bot-user",
+      apiPassword: "secret",
+      cursors: makeCursors({ room123: 10 }),
+      roomTokens: ["room123", "unknown"],
+      now: NOW,
+      onMessage: () => {},
+      onSkip: () => {},
+      onError,
+    });
+
+    expect(replayed).toBe(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), "room123");
+  });
+});
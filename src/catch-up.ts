@@ -0,0 +1,91 @@
+/**
+ * Missed-message catch-up for Nextcloud Talk.
+ *
+ * Every account keeps a per-room high-water mark of processed message ids (see
+ * cursor-store.ts). On startup we read the newest messages of each known room from
+ * the chat API and replay the ones above the mark, bounded by age and count so a
+ * long outage does not flood the agent with stale questions. The mark itself only
+ * moves once replayed messages are processed, or reported as skipped.
+ */
+
+import {
+  chatMessageToInboundMessage,
+  fetchNextcloudTalkChatMessages,
+  isNextcloudTalkChatMessageIngestible,
+} from "./chat-api.js";
+import type { NextcloudTalkCursorStore } from "./cursor-store.js";
+import type { NextcloudTalkInboundMessage } from "./types.js";
+
+export const DEFAULT_CATCH_UP_MAX_MESSAGES = 20;
+export const DEFAULT_CATCH_UP_MAX_AGE_MINUTES = 60;
+
+/**
+ * Replay missed messages for every room with a known cursor.
+ * Returns the number of messages handed to `onMessage`.
+ */
+export async function catchUpNextcloudTalkRooms(params: {
+  baseUrl: string;
+  apiUser: string;
+  apiPassword: string;
+  cursors: NextcloudTalkCursorStore;
+  /** Limit catch-up to these rooms; defaults to every room with a cursor. */
+  roomTokens?: string[];
+  maxMessages?: number;
+  maxAgeMinutes?: number;
+  now?: number;
+  onMessage: (message: NextcloudTalkInboundMessage) => void;
+  /** Fetched messages that are not replayed (not ingestible or too old). */
+  onSkip: (roomToken: string, messageId: number) => void;
+  onError?: (error: unknown, roomToken: string) => void;
+  signal?: AbortSignal;
+}): Promise<number> {
+  const { cursors } = params;
+  const maxMessages = params.maxMessages ?? DEFAULT_CATCH_UP_MAX_MESSAGES;
+  const maxAgeMs = (params.maxAgeMinutes ?? DEFAULT_CATCH_UP_MAX_AGE_MINUTES) * 60_000;
+  const cutoff = (params.now ?? Date.now()) - maxAgeMs;
+  const roomTokens = (params.roomTokens ?? cursors.rooms()).filter(
+    (roomToken) => cursors.get(roomToken) !== undefined,
+  );
+
+  let replayed = 0;
+  for (const roomToken of roomTokens) {
+    if (params.signal?.aborted) {
+      break;
+    }
+    const mark = cursors.get(roomToken) ?? 0;
+    try {
+      // Newest-first history read: at most `maxMessages` are ever considered.
+      const recent = await fetchNextcloudTalkChatMessages({
+        baseUrl: params.baseUrl,
+        apiUser: params.apiUser,
+        apiPassword: params.apiPassword,
+        roomToken,
+        lookIntoFuture: false,
+        limit: maxMessages,
+        signal: params.signal,
+      });
+      // Unread messages older than the fetched page are skipped for good.
+      const oldest = recent[0];
+      if (oldest && oldest.id > mark + 1) {
+        cursors.advance(roomToken, oldest.id - 1);
+      }
+      for (const message of recent) {
+        if (message.id <= mark) {
+          continue;
+        }
+        if (
+          message.timestamp * 1000 >= cutoff &&
+          isNextcloudTalkChatMessageIngestible(message, params.apiUser)
+        ) {
+          params.onMessage(chatMessageToInboundMessage(message));
+          replayed += 1;
+        } else {
+          params.onSkip(roomToken, message.id);
+        }
+      }
+    } catch (err) {
+      params.onError?.(err, roomToken);
+    }
+  }
+  return replayed;
+}
@@ -8,6 +8,7 @@ import {
   resolveAllowlistProviderRuntimeGroupPolicy,
   resolveDefaultGroupPolicy,
   setAccountEnabledInConfigSection,
+  type ChannelOutboundAdapter,
   type ChannelPlugin,
   type OpenClawConfig,
   type ChannelSetupInput,
@@ -18,6 +19,7 @@ import {
   resolveNextcloudTalkAccount,
   type ResolvedNextcloudTalkAccount,
 } from "./accounts.js";
+import { nextcloudTalkMessageActions } from "./actions.js";
 import { NextcloudTalkConfigSchema } from "./config-schema.js";
 import { monitorNextcloudTalkProvider } from "./monitor.js";
 import {
@@ -27,7 +29,12 @@ import {
 import { nextcloudTalkOnboardingAdapter } from "./onboarding.js";
 import { resolveNextcloudTalkGroupToolPolicy } from "./policy.js";
 import { getNextcloudTalkRuntime } from "./runtime.js";
-import { sendMessageNextcloudTalk } from "./send.js";
+import {
+  deleteMessageNextcloudTalk,
+  sendMediaNextcloudTalk,
+  sendMessageNextcloudTalk,
+} from "./send.js";
+import { createNextcloudTalkDownloadFileTool } from "./tools.js";
 import type { CoreConfig } from "./types.js";
 
 const meta = {
@@ -49,6 +56,45 @@ type NextcloudSetupInput = ChannelSetupInput & {
   useEnv?: boolean;
 };
 
+/** Outbound adapter; `deleteMessage` retracts a message the account itself sent. */
+const nextcloudTalkOutbound: ChannelOutboundAdapter & {
+  deleteMessage: (ctx: {
+    to: string;
+    messageId: string;
+    accountId?: string | null;
+  }) => Promise<{ channel: "nextcloud-talk"; messageId: string; roomToken: string }>;
+} = {
+  deliveryMode: "direct",
+  chunker: (text, limit) => getNextcloudTalkRuntime().channel.text.chunkMarkdownText(text, limit),
+  chunkerMode: "markdown",
+  textChunkLimit: 4000,
+  sendText: async ({ to, text, accountId, replyToId }) => {
+    const result = await sendMessageNextcloudTalk(to, text, {
+      accountId: accountId ?? undefined,
+      replyTo: replyToId ?? undefined,
+      silentKind: "proactive",
+    });
+    return { channel: "nextcloud-talk", ...result };
+  },
+  sendMedia: async ({ to, text, mediaUrl, accountId, replyToId }) => {
+    const sendOpts = {
+      accountId: accountId ?? undefined,
+      replyTo: replyToId ?? undefined,
+      silentKind: "proactive" as const,
+    };
+    const result = mediaUrl
+      ? await sendMediaNextcloudTalk(to, text, mediaUrl, sendOpts)
+      : await sendMessageNextcloudTalk(to, text, sendOpts);
+    return { channel: "nextcloud-talk", ...result };
+  },
+  deleteMessage: async ({ to, messageId, accountId }) => {
+    const result = await deleteMessageNextcloudTalk(to, messageId, {
+      accountId: accountId ?? undefined,
+    });
+    return { channel: "nextcloud-talk", ...result };
+  },
+};
+
 export const nextcloudTalkPlugin: ChannelPlugin<ResolvedNextcloudTalkAccount> = {
   id: "nextcloud-talk",
   meta,
@@ -174,6 +220,8 @@ export const nextcloudTalkPlugin: ChannelPlugin<ResolvedNextcloudTalkAccount> =
     },
     resolveToolPolicy: resolveNextcloudTalkGroupToolPolicy,
   },
+  actions: nextcloudTalkMessageActions,
+  agentTools: ({ cfg }) => [createNextcloudTalkDownloadFileTool(cfg)],
   messaging: {
     normalizeTarget: normalizeNextcloudTalkMessagingTarget,
     targetResolver: {
@@ -256,27 +304,7 @@ export const nextcloudTalkPlugin: ChannelPlugin<ResolvedNextcloudTalkAccount> =
       } as OpenClawConfig;
     },
   },
-  outbound: {
-    deliveryMode: "direct",
-    chunker: (text, limit) => getNextcloudTalkRuntime().channel.text.chunkMarkdownText(text, limit),
-    chunkerMode: "markdown",
-    textChunkLimit: 4000,
-    sendText: async ({ to, text, accountId, replyToId }) => {
-      const result = await sendMessageNextcloudTalk(to, text, {
-        accountId: accountId ?? undefined,
-        replyTo: replyToId ?? undefined,
-      });
-      return { channel: "nextcloud-talk", ...result };
-    },
-    sendMedia: async ({ to, text, mediaUrl, accountId, replyToId }) => {
-      const messageWithMedia = mediaUrl ? `${text}\n\nAttachment: ${mediaUrl}` : text;
-      const result = await sendMessageNextcloudTalk(to, messageWithMedia, {
-        accountId: accountId ?? undefined,
-        replyTo: replyToId ?? undefined,
-      });
-      return { channel: "nextcloud-talk", ...result };
-    },
-  },
+  outbound: nextcloudTalkOutbound,
   status: {
     defaultRuntime: {
       accountId: DEFAULT_ACCOUNT_ID,
@@ -289,7 +317,7 @@ export const nextcloudTalkPlugin: ChannelPlugin<ResolvedNextcloudTalkAccount> =
       configured: snapshot.configured ?? false,
       secretSource: snapshot.secretSource ?? "none",
       running: snapshot.running ?? false,
-      mode: "webhook",
+      mode: snapshot.mode ?? "webhook",
       lastStartAt: snapshot.lastStartAt ?? null,
       lastStopAt: snapshot.lastStopAt ?? null,
       lastError: snapshot.lastError ?? null,
@@ -307,7 +335,7 @@ export const nextcloudTalkPlugin: ChannelPlugin<ResolvedNextcloudTalkAccount> =
         lastStartAt: runtime?.lastStartAt ?? null,
         lastStopAt: runtime?.lastStopAt ?? null,
         lastError: runtime?.lastError ?? null,
-        mode: "webhook",
+        mode: account.config.mode ?? "webhook",
         lastInboundAt: runtime?.lastInboundAt ?? null,
         lastOutboundAt: runtime?.lastOutboundAt ?? null,
       };
@@ -322,7 +350,9 @@ export const nextcloudTalkPlugin: ChannelPlugin<ResolvedNextcloudTalkAccount> =
         );
       }
 
-      ctx.log?.info(`[${account.accountId}] starting Nextcloud Talk webhook server`);
+      ctx.log?.info(
+        `[${account.accountId}] starting Nextcloud Talk ${account.config.mode ?? "webhook"} monitor`,
+      );
 
       const { stop } = await monitorNextcloudTalkProvider({
         accountId: account.accountId,
@@ -342,6 +372,8 @@ export const nextcloudTalkPlugin: ChannelPlugin<ResolvedNextcloudTalkAccount> =
         }
         ctx.abortSignal?.addEventListener("abort", () => resolve(), { once: true });
       });
+      // Then hold shutdown until in-flight turns have drained.
+      await stop();
 
       return { stop };
     },
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  chatMessageToInboundMessage,
+  isNextcloudTalkChatMessageIngestible,
+  type NextcloudTalkChatMessage,
+} from "./chat-api.js";
+
+function makeChatMessage(
+  overrides: Partial<NextcloudTalkChatMessage> = {},
+): NextcloudTalkChatMessage {
+  return {
+    id: 42,
+    token: "room123",
+    actorType: "users",
+    actorId: "alice",
+    actorDisplayName: "Alice",
+    timestamp: 1_700_000_000,
+    message: "Hello",
+    messageParameters: [],
+    systemMessage: "",
+    messageType: "comment",
+    ...overrides,
+  };
+}
+
+describe("nextcloud-talk chat api", () => {
+  it("converts chat messages to the webhook inbound shape", () => {
+    const msg = chatMessageToInboundMessage(
+      makeChatMessage({
+        message: "Look {file}",
+        messageParameters: {
+          file: { type: "file", id: "7", name: "a.png", path: "Talk/a.png", mimetype: "image/png" },
+        },
+      }),
+    );
+    expect(msg.messageId).toBe("42");
+    expect(msg.roomToken).toBe("room123");
+    expect(msg.senderId).toBe("users/alice");
+    expect(msg.text).toBe("Look a.png");
+    expect(msg.timestamp).toBe(1_700_000_000_000);
+    expect(msg.fileParameters).toHaveLength(1);
+  });
+
+  it("skips system, bot and own messages", () => {
+    expect(isNextcloudTalkChatMessageIngestible(makeChatMessage(), "bot-user")).toBe(true);
+    expect(
+      isNextcloudTalkChatMessageIngestible(
+        makeChatMessage({ systemMessage: "user_added" }),
+        "bot-user",
+      ),
+    ).toBe(false);
+    expect(
+      isNextcloudTalkChatMessageIngestible(makeChatMessage({ actorType: "bots" }), "bot-user"),
+    ).toBe(false);
+    expect(
+      isNextcloudTalkChatMessageIngestible(makeChatMessage({ actorId: "bot-user" }), "bot-user"),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Minimal client for the Talk chat API (`/ocs/v2.php/apps/spreed/api/v1/chat/{token}`),
+ * used with the account's API user to read messages when webhooks are unavailable.
+ */
+
+import { resolveRichMessageFields } from "./rich-content.js";
+import type { NextcloudTalkInboundMessage, NextcloudTalkRichObjectParameter } from "./types.js";
+
+/** A chat message as returned by the Talk chat API. */
+export type NextcloudTalkChatMessage = {
+  id: number;
+  token: string;
+  actorType: string;
+  actorId: string;
+  actorDisplayName?: string;
+  /** Unix time in seconds. */
+  timestamp: number;
+  message: string;
+  /** Empty array (not object) when the message has no parameters. */
+  messageParameters?: Record<string, NextcloudTalkRichObjectParameter> | unknown[];
+  systemMessage?: string;
+  messageType?: string;
+  referenceId?: string;
+  threadId?: number;
+};
+
+const CHAT_FETCH_GRACE_MS = 10_000;
+
+/**
+ * Fetch chat messages for a room.
+ *
+ * With `lookIntoFuture`, Talk holds the request for up to `timeoutSeconds` and
+ * answers 304 when nothing newer than `lastKnownMessageId` arrived.
+ */
+export async function fetchNextcloudTalkChatMessages(params: {
+  baseUrl: string;
+  apiUser: string;
+  apiPassword: string;
+  roomToken: string;
+  lookIntoFuture: boolean;
+  lastKnownMessageId?: number;
+  limit?: number;
+  timeoutSeconds?: number;
+  signal?: AbortSignal;
+}): Promise<NextcloudTalkChatMessage[]> {
+  const { baseUrl, apiUser, apiPassword, roomToken } = params;
+  const timeoutSeconds = params.timeoutSeconds ?? 0;
+  const query = new URLSearchParams({
+    lookIntoFuture: params.lookIntoFuture ? "1" : "0",
+    limit: String(params.limit ?? 100),
+    timeout: String(timeoutSeconds),
+    setReadMarker: "0",
+    includeLastKnown: "0",
+  });
+  if (params.lastKnownMessageId !== undefined) {
+    query.set("lastKnownMessageId", String(params.lastKnownMessageId));
+  }
+  const url = `${baseUrl}/ocs/v2.php/apps/spreed/api/v1/chat/${encodeURIComponent(roomToken)}?${query}`;
+  const auth = Buffer.from(`${apiUser}:${apiPassword}`, "utf-8").toString("base64");
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  params.signal?.addEventListener("abort", onAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(), timeoutSeconds * 1000 + CHAT_FETCH_GRACE_MS);
+  try {
+    const response = await fetch(url, {
+      method: "GET",
+      signal: controller.signal,
+      headers: {
+        Authorization: `Basic ${auth}`,
+        "OCS-APIRequest": "true",
+        Accept: "application/json",
+      },
+    });
+    if (response.status === 304) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`Nextcloud Talk chat fetch failed (${response.status}) token=${roomToken}`);
+    }
+    const payload = (await response.json()) as { ocs?: { data?: NextcloudTalkChatMessage[] } };
+    const messages = Array.isArray(payload.ocs?.data) ? payload.ocs.data : [];
+    return messages.toSorted((a, b) => a.id - b.id);
+  } finally {
+    clearTimeout(timer);
+    params.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Whether a chat API message should be treated as user input. Skips system
+ * messages, deleted messages, bots and the API user's own messages.
+ */
+export function isNextcloudTalkChatMessageIngestible(
+  message: NextcloudTalkChatMessage,
+  apiUser: string,
+): boolean {
+  if (message.systemMessage) {
+    return false;
+  }
+  if (message.messageType === "system" || message.messageType === "comment_deleted") {
+    return false;
+  }
+  if (message.actorType === "bots") {
+    return false;
+  }
+  if (message.actorType === "users" && message.actorId === apiUser) {
+    return false;
+  }
+  return true;
+}
+
+/** Convert a chat API message into the same shape the webhook produces. */
+export function chatMessageToInboundMessage(
+  message: NextcloudTalkChatMessage,
+  roomName?: string,
+): NextcloudTalkInboundMessage {
+  const parameters = Array.isArray(message.messageParameters)
+    ? undefined
+    : message.messageParameters;
+  return {
+    messageId: String(message.id),
+    roomToken: message.token,
+    roomName: roomName ?? message.token,
+    senderId: `${message.actorType}/${message.actorId}`,
+    senderName: message.actorDisplayName ?? "",
+    ...resolveRichMessageFields(message.message ?? "", parameters),
+    mediaType: "text/markdown",
+    timestamp: message.timestamp * 1000,
+    isGroupChat: true,
+    ...(message.threadId ? { threadId: String(message.threadId) } : {}),
+    ...(message.referenceId ? { referenceId: message.referenceId } : {}),
+  };
+}
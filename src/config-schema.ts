@@ -12,6 +12,12 @@ import { z } from "zod";
 export const NextcloudTalkRoomSchema = z
   .object({
     requireMention: z.boolean().optional(),
+    mentionAll: z.boolean().optional(),
+    guestPolicy: z.enum(["deny", "read-only", "allow"]).optional(),
+    allowBots: z.array(z.string()).optional(),
+    silent: z
+      .union([z.boolean(), z.array(z.enum(["reply", "block", "pairing", "proactive"]))])
+      .optional(),
     tools: ToolPolicySchema,
     skills: z.array(z.string()).optional(),
     enabled: z.boolean().optional(),
@@ -20,22 +26,118 @@ export const NextcloudTalkRoomSchema = z
   })
   .strict();
 
+export const NextcloudTalkInboundQueueSchema = z
+  .object({
+    maxConcurrentRooms: z.number().int().positive().optional(),
+    maxDepth: z.number().int().positive().optional(),
+    overflow: z.enum(["drop-oldest", "drop-newest", "merge"]).optional(),
+    debounceMs: z.number().int().nonnegative().optional(),
+    debounceMaxWaitMs: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export const NextcloudTalkWebhookTlsSchema = z
+  .object({
+    certFile: z.string(),
+    keyFile: z.string(),
+    caFile: z.string().optional(),
+    requireClientCert: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    if (value.requireClientCert && !value.caFile) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["caFile"],
+        message: "channels.nextcloud-talk.webhookTls.requireClientCert requires caFile",
+      });
+    }
+  });
+
+export const NextcloudTalkTranscriptionSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    provider: z.enum(["command", "http"]),
+    command: z.string().optional(),
+    args: z.array(z.string()).optional(),
+    url: z.string().url().optional(),
+    apiKey: z.string().optional(),
+    model: z.string().optional(),
+    language: z.string().optional(),
+    timeoutSeconds: z.number().positive().optional(),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    if (value.provider === "command" && !value.command) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["command"],
+        message: 'channels.nextcloud-talk.transcription.provider="command" requires command',
+      });
+    }
+    if (value.provider === "http" && !value.url) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["url"],
+        message: 'channels.nextcloud-talk.transcription.provider="http" requires url',
+      });
+    }
+  });
+
+export const NextcloudTalkLoopProtectionSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    maxRapidTurns: z.number().int().positive().optional(),
+    rapidReplySeconds: z.number().positive().optional(),
+    cooldownSeconds: z.number().positive().optional(),
+  })
+  .strict();
+
+export const NextcloudTalkRetrySchema = z
+  .object({
+    attempts: z.number().int().min(1).optional(),
+    minDelayMs: z.number().int().nonnegative().optional(),
+    maxDelayMs: z.number().int().nonnegative().optional(),
+    jitter: z.number().min(0).max(1).optional(),
+  })
+  .strict();
+
+export const NextcloudTalkCatchUpSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    maxAgeMinutes: z.number().positive().optional(),
+    maxMessages: z.number().int().positive().max(200).optional(),
+  })
+  .strict();
+
 export const NextcloudTalkAccountSchemaBase = z
   .object({
     name: z.string().optional(),
     enabled: z.boolean().optional(),
     markdown: MarkdownConfigSchema,
     baseUrl: z.string().optional(),
+    allowedBackends: z.array(z.string()).optional(),
     botSecret: z.string().optional(),
     botSecretFile: z.string().optional(),
     apiUser: z.string().optional(),
     apiPassword: z.string().optional(),
     apiPasswordFile: z.string().optional(),
+    allowInsecureSsl: z.boolean().optional(),
     dmPolicy: DmPolicySchema.optional().default("pairing"),
+    mode: z.enum(["webhook", "polling"]).optional(),
+    pollTimeoutSeconds: z.number().int().positive().max(60).optional(),
     webhookPort: z.number().int().positive().optional(),
+    webhookListener: z.enum(["shared", "dedicated"]).optional(),
     webhookHost: z.string().optional(),
+    webhookSocketPath: z.string().optional(),
+    webhookTls: NextcloudTalkWebhookTlsSchema.optional(),
     webhookPath: z.string().optional(),
     webhookPublicUrl: z.string().optional(),
+    webhookReplayWindowSeconds: z.number().int().positive().optional(),
+    webhookMetrics: z.boolean().optional(),
+    webhookMetricsToken: z.string().optional(),
+    mentionIds: z.array(z.string()).optional(),
+    guestPolicy: z.enum(["deny", "read-only", "allow"]).optional(),
     allowFrom: z.array(z.string()).optional(),
     groupAllowFrom: z.array(z.string()).optional(),
     groupPolicy: GroupPolicySchema.optional().default("allowlist"),
@@ -47,8 +149,20 @@ export const NextcloudTalkAccountSchemaBase = z
     chunkMode: z.enum(["length", "newline"]).optional(),
     blockStreaming: z.boolean().optional(),
     blockStreamingCoalesce: BlockStreamingCoalesceSchema.optional(),
+    blockStreamingMode: z.enum(["messages", "edit"]).optional(),
+    blockStreamingEditIntervalMs: z.number().int().nonnegative().optional(),
     responsePrefix: z.string().optional(),
     mediaMaxMb: z.number().positive().optional(),
+    mediaPreviewMaxDimension: z.number().int().nonnegative().optional(),
+    mediaUploadFolder: z.string().optional(),
+    editPolicy: z.enum(["rerun", "note", "ignore"]).optional(),
+    editWindowSeconds: z.number().int().min(0).optional(),
+    inboundQueue: NextcloudTalkInboundQueueSchema.optional(),
+    shutdownDrainSeconds: z.number().nonnegative().optional(),
+    catchUp: NextcloudTalkCatchUpSchema.optional(),
+    retry: NextcloudTalkRetrySchema.optional(),
+    loopProtection: NextcloudTalkLoopProtectionSchema.optional(),
+    transcription: NextcloudTalkTranscriptionSchema.optional(),
   })
   .strict();
 
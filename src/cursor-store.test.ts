@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  createNextcloudTalkCursorCommitter,
+  type NextcloudTalkCursorStore,
+} from "./cursor-store.js";
+
+function createMemoryCursors(): NextcloudTalkCursorStore {
+  const rooms = new Map<string, number>();
+  return {
+    get: (roomToken) => rooms.get(roomToken),
+    advance: (roomToken, messageId) => {
+      if (messageId > (rooms.get(roomToken) ?? -1)) rooms.set(roomToken, messageId);
+    },
+    rooms: () => [...rooms.keys()],
+    flush: async () => {},
+  };
+}
+
+describe("nextcloud-talk cursor store", () => {
+  it("does not move a room cursor past messages that are still unfinished", () => {
+    const cursors = createMemoryCursors();
+    const unfinished = new Set([10, 11, 12]);
+    const committer = createNextcloudTalkCursorCommitter({
+      cursors,
+      unfinishedIds: () => [...unfinished],
+    });
+
+    // A thread message finishes while main-room message 10 is still running.
+    unfinished.delete(12);
+    committer.complete("room1", [12]);
+    expect(cursors.get("room1")).toBeUndefined();
+
+    unfinished.delete(10);
+    committer.complete("room1", [10]);
+    expect(cursors.get("room1")).toBe(10);
+
+    unfinished.delete(11);
+    committer.complete("room1", [11]);
+    expect(cursors.get("room1")).toBe(12);
+  });
+
+  it("commits held ids once the blocking message is gone", () => {
+    const cursors = createMemoryCursors();
+    const unfinished = new Set([10]);
+    const committer = createNextcloudTalkCursorCommitter({
+      cursors,
+      unfinishedIds: () => [...unfinished],
+    });
+
+    committer.complete("room1", [11]);
+    expect(cursors.get("room1")).toBeUndefined();
+
+    // Message 10 failed and will never complete; the room queue is now empty.
+    unfinished.delete(10);
+    committer.flush("room1");
+    expect(cursors.get("room1")).toBe(11);
+  });
+
+  it("is not blocked by ids merged into the finished message", () => {
+    const cursors = createMemoryCursors();
+    const unfinished = new Set([10, 11]);
+    const committer = createNextcloudTalkCursorCommitter({
+      cursors,
+      unfinishedIds: () => [...unfinished],
+    });
+
+    // Messages 10 and 11 ran as one merged turn.
+    committer.complete("room1", [10, 11]);
+    expect(cursors.get("room1")).toBe(11);
+  });
+});
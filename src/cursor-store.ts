@@ -0,0 +1,113 @@
+/**
+ * Persistent per-room message cursors (last processed message id) for an account.
+ *
+ * Stored as JSON under the OpenClaw state dir so polling and catch-up resume
+ * where they left off after a restart. Writes are coalesced; call flush() on stop.
+ */
+
+import { createNextcloudTalkStateWriter, readNextcloudTalkStateFile } from "./state-file.js";
+
+export type NextcloudTalkCursorStore = {
+  /** Last processed message id for a room, if known. */
+  get: (roomToken: string) => number | undefined;
+  /** Move a room's cursor forward. Ids at or below the current cursor are ignored. */
+  advance: (roomToken: string, messageId: number) => void;
+  /** Rooms with a known cursor. */
+  rooms: () => string[];
+  /** Write pending changes to disk. */
+  flush: () => Promise<void>;
+};
+
+type CursorFile = {
+  version: 1;
+  rooms: Record<string, { lastKnownMessageId: number }>;
+};
+
+export function createNextcloudTalkCursorStore(params: {
+  filePath: string;
+  onError?: (error: unknown) => void;
+}): NextcloudTalkCursorStore {
+  const { filePath, onError } = params;
+  const stored = readNextcloudTalkStateFile<CursorFile>(filePath)?.rooms;
+  const rooms: CursorFile["rooms"] = stored && typeof stored === "object" ? stored : {};
+  const writer = createNextcloudTalkStateWriter({
+    filePath,
+    snapshot: (): CursorFile => ({ version: 1, rooms }),
+    onError,
+    unref: true,
+  });
+
+  const advance = (roomToken: string, messageId: number) => {
+    if (!Number.isFinite(messageId)) {
+      return;
+    }
+    const current = rooms[roomToken]?.lastKnownMessageId;
+    if (current !== undefined && messageId <= current) {
+      return;
+    }
+    rooms[roomToken] = { lastKnownMessageId: messageId };
+    writer.schedule();
+  };
+
+  return {
+    get: (roomToken) => rooms[roomToken]?.lastKnownMessageId,
+    advance,
+    rooms: () => Object.keys(rooms),
+    flush: writer.flush,
+  };
+}
+
+/**
+ * Advance room cursors as turns complete without passing messages that have not
+ * finished yet. With per-thread queues a thread message can complete before earlier
+ * main-room messages; moving the cursor past those would make catch-up skip them
+ * after a crash.
+ */
+export function createNextcloudTalkCursorCommitter(params: {
+  cursors: NextcloudTalkCursorStore;
+  /** Ids of the room's messages that are still held, queued or running. */
+  unfinishedIds: (roomToken: string) => number[];
+}): {
+  /** A message (with the ids merged into it) was processed or skipped. */
+  complete: (roomToken: string, messageIds: number[]) => void;
+  /** Commit held ids that no unfinished message blocks any more (e.g. the room went idle). */
+  flush: (roomToken: string) => void;
+} {
+  // Completed ids per room that the cursor cannot cover yet.
+  const completed = new Map<string, number[]>();
+
+  const commit = (roomToken: string, ids: number[], finishedIds: number[] = []) => {
+    const lowestUnfinished = Math.min(
+      ...params
+        .unfinishedIds(roomToken)
+        .filter((id) => !finishedIds.includes(id) && Number.isFinite(id)),
+    );
+    const covered = ids.filter((id) => id < lowestUnfinished);
+    const held = ids.filter((id) => id >= lowestUnfinished);
+    if (covered.length > 0) {
+      params.cursors.advance(roomToken, Math.max(...covered));
+    }
+    if (held.length > 0) {
+      completed.set(roomToken, held);
+    } else {
+      completed.delete(roomToken);
+    }
+  };
+
+  const complete = (roomToken: string, messageIds: number[]) => {
+    const finished = messageIds.filter((id) => Number.isFinite(id));
+    if (finished.length === 0) {
+      return;
+    }
+    commit(roomToken, [...(completed.get(roomToken) ?? []), ...finished], finished);
+  };
+
+  const flush = (roomToken: string) => {
+    const held = completed.get(roomToken);
+    if (held) {
+      commit(roomToken, held);
+    }
+  };
+
+  return { complete, flush };
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { ResolvedNextcloudTalkAccount } from "./accounts.js";
+import {
+  recordNextcloudTalkRoomLookupResult,
+  recordNextcloudTalkSendResult,
+  recordNextcloudTalkSignalingResult,
+  recordNextcloudTalkStartResult,
+  registerNextcloudTalkDiagnostics,
+  resetNextcloudTalkDiagnostics,
+  resolveNextcloudTalkMissingConfig,
+  resolveNextcloudTalkReadiness,
+} from "./diagnostics.js";
+
+function makeAccount(
+  overrides: Partial<ResolvedNextcloudTalkAccount> = {},
+): ResolvedNextcloudTalkAccount {
+  return {
+    accountId: "default",
+    enabled: true,
+    baseUrl: "https://cloud.example.com",
+    secret: "secret",
+    secretSource: "config",
+    config: {},
+    ...overrides,
+  };
+}
+
+describe("nextcloud-talk readiness diagnostics", () => {
+  beforeEach(() => {
+    resetNextcloudTalkDiagnostics();
+  });
+
+  it("reports missing config", () => {
+    expect(resolveNextcloudTalkMissingConfig(makeAccount())).toEqual([]);
+    expect(resolveNextcloudTalkMissingConfig(makeAccount({ secret: "" }))).toEqual(["botSecret"]);
+    expect(resolveNextcloudTalkMissingConfig(makeAccount({ config: { apiUser: "bot" } }))).toEqual([
+      "apiPassword",
+    ]);
+    expect(resolveNextcloudTalkMissingConfig(makeAccount({ config: { mode: "polling" } }))).toEqual(
+      ["apiUser", "apiPassword"],
+    );
+  });
+
+  it("is ok for a healthy account", () => {
+    registerNextcloudTalkDiagnostics(makeAccount());
+    recordNextcloudTalkStartResult("default");
+    recordNextcloudTalkSendResult("default");
+
+    const readiness = resolveNextcloudTalkReadiness([makeAccount()]);
+    expect(readiness.status).toBe("ok");
+    expect(readiness.accounts.default?.lastOutboundAt).toEqual(expect.any(Number));
+    expect(readiness.accounts.default?.signalingReachable).toBeNull();
+  });
+
+  it("degrades on failed sends, signaling and room lookups", () => {
+    registerNextcloudTalkDiagnostics(makeAccount());
+    registerNextcloudTalkDiagnostics(makeAccount({ accountId: "other" }));
+    recordNextcloudTalkStartResult("default");
+    recordNextcloudTalkStartResult("other");
+    recordNextcloudTalkSendResult("default", new Error("authentication failed"));
+    recordNextcloudTalkSignalingResult("default", new Error("ECONNREFUSED"));
+    recordNextcloudTalkRoomLookupResult("default", "status 404");
+
+    const readiness = resolveNextcloudTalkReadiness([
+      makeAccount(),
+      makeAccount({ accountId: "other" }),
+    ]);
+    expect(readiness.status).toBe("degraded");
+    expect(readiness.accounts.other?.status).toBe("ok");
+    expect(readiness.accounts.default?.reasons).toEqual([
+      "last send failed",
+      "signaling unreachable",
+      "last room lookup failed",
+    ]);
+    expect(readiness.accounts.default?.lastSendError?.message).toBe("authentication failed");
+  });
+
+  it("degrades for configured accounts that are not running or failed to start", () => {
+    registerNextcloudTalkDiagnostics(makeAccount({ secret: "" }));
+    recordNextcloudTalkStartResult("default", new Error("bot secret not configured"));
+
+    const readiness = resolveNextcloudTalkReadiness([
+      makeAccount({ secret: "" }),
+      makeAccount({ accountId: "polling", config: { mode: "polling" } }),
+    ]);
+    expect(readiness.status).toBe("degraded");
+    expect(readiness.accounts.default?.reasons).toEqual([
+      "start failed: bot secret not configured",
+      "missing config: botSecret",
+    ]);
+    expect(readiness.accounts.polling).toMatchObject({
+      started: false,
+      reasons: ["not running", "missing config: apiUser, apiPassword"],
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Per-account readiness diagnostics for the webhook listener's `/readyz` endpoint.
+ *
+ * Readiness covers every enabled account in the config. Monitors register their account
+ * on start and report whether starting succeeded; inbound handling, sends, typing
+ * signaling and room lookups report their latest outcome here. An account is degraded
+ * when it is not running, its config is incomplete or the most recent send, signaling
+ * or room lookup failed.
+ */
+
+import {
+  type ResolvedNextcloudTalkAccount,
+  resolveNextcloudTalkApiCredentials,
+} from "./accounts.js";
+
+type CheckState = {
+  ok: boolean;
+  checkedAt: number;
+  error?: string;
+};
+
+type AccountDiagnostics = {
+  missing: string[];
+  started: boolean;
+  startError?: string;
+  lastInboundAt?: number;
+  lastOutboundAt?: number;
+  lastSendError?: { at: number; message: string };
+  signaling?: CheckState;
+  roomLookup?: CheckState;
+};
+
+export type NextcloudTalkAccountReadiness = {
+  status: "ok" | "degraded";
+  /** Whether the account's monitor started successfully. */
+  started: boolean;
+  startError: string | null;
+  configComplete: boolean;
+  missingConfig: string[];
+  lastInboundAt: number | null;
+  lastOutboundAt: number | null;
+  lastSendError: { at: number; message: string } | null;
+  /** null until signaling was attempted (requires apiUser/apiPassword). */
+  signalingReachable: boolean | null;
+  signalingError: string | null;
+  /** null until a room lookup was attempted. */
+  roomLookupOk: boolean | null;
+  roomLookupError: string | null;
+  reasons: string[];
+};
+
+export type NextcloudTalkReadiness = {
+  status: "ok" | "degraded";
+  accounts: Record<string, NextcloudTalkAccountReadiness>;
+};
+
+const diagnostics = new Map<string, AccountDiagnostics>();
+
+function resolveDiagnostics(accountId: string): AccountDiagnostics {
+  let entry = diagnostics.get(accountId);
+  if (!entry) {
+    entry = { missing: [], started: false };
+    diagnostics.set(accountId, entry);
+  }
+  return entry;
+}
+
+function formatError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Config fields an account needs but does not have. */
+export function resolveNextcloudTalkMissingConfig(account: ResolvedNextcloudTalkAccount): string[] {
+  const missing: string[] = [];
+  if (!account.baseUrl?.trim()) {
+    missing.push("baseUrl");
+  }
+  if (!account.secret?.trim()) {
+    missing.push("botSecret");
+  }
+  const hasCredentials = resolveNextcloudTalkApiCredentials(account) !== undefined;
+  if (account.config.apiUser?.trim() && !hasCredentials) {
+    missing.push("apiPassword");
+  } else if (account.config.mode === "polling" && !hasCredentials) {
+    missing.push("apiUser", "apiPassword");
+  }
+  return missing;
+}
+
+/** Register (or refresh) an account when its monitor starts. */
+export function registerNextcloudTalkDiagnostics(account: ResolvedNextcloudTalkAccount): void {
+  const entry = resolveDiagnostics(account.accountId);
+  entry.missing = resolveNextcloudTalkMissingConfig(account);
+  entry.started = false;
+  entry.startError = undefined;
+}
+
+/** Record whether an account's monitor started (or why it failed to). */
+export function recordNextcloudTalkStartResult(accountId: string, error?: unknown): void {
+  const entry = resolveDiagnostics(accountId);
+  entry.started = error === undefined;
+  entry.startError = error === undefined ? undefined : formatError(error);
+}
+
+export function recordNextcloudTalkInboundReceived(accountId: string, at = Date.now()): void {
+  resolveDiagnostics(accountId).lastInboundAt = at;
+}
+
+export function recordNextcloudTalkSendResult(accountId: string, error?: unknown): void {
+  const entry = resolveDiagnostics(accountId);
+  if (error === undefined) {
+    entry.lastOutboundAt = Date.now();
+  } else {
+    entry.lastSendError = { at: Date.now(), message: formatError(error) };
+  }
+}
+
+export function recordNextcloudTalkSignalingResult(accountId: string, error?: unknown): void {
+  resolveDiagnostics(accountId).signaling = {
+    ok: error === undefined,
+    checkedAt: Date.now(),
+    ...(error === undefined ? {} : { error: formatError(error) }),
+  };
+}
+
+export function recordNextcloudTalkRoomLookupResult(accountId: string, error?: unknown): void {
+  resolveDiagnostics(accountId).roomLookup = {
+    ok: error === undefined,
+    checkedAt: Date.now(),
+    ...(error === undefined ? {} : { error: formatError(error) }),
+  };
+}
+
+function resolveAccountReadiness(entry: AccountDiagnostics): NextcloudTalkAccountReadiness {
+  const reasons: string[] = [];
+  if (entry.startError !== undefined) {
+    reasons.push(`start failed: ${entry.startError}`);
+  } else if (!entry.started) {
+    reasons.push("not running");
+  }
+  if (entry.missing.length > 0) {
+    reasons.push(`missing config: ${entry.missing.join(", ")}`);
+  }
+  const sendFailing =
+    entry.lastSendError !== undefined &&
+    (entry.lastOutboundAt === undefined || entry.lastSendError.at > entry.lastOutboundAt);
+  if (sendFailing) {
+    reasons.push("last send failed");
+  }
+  if (entry.signaling?.ok === false) {
+    reasons.push("signaling unreachable");
+  }
+  if (entry.roomLookup?.ok === false) {
+    reasons.push("last room lookup failed");
+  }
+  return {
+    status: reasons.length > 0 ? "degraded" : "ok",
+    started: entry.started,
+    startError: entry.startError ?? null,
+    configComplete: entry.missing.length === 0,
+    missingConfig: entry.missing,
+    lastInboundAt: entry.lastInboundAt ?? null,
+    lastOutboundAt: entry.lastOutboundAt ?? null,
+    lastSendError: entry.lastSendError ?? null,
+    signalingReachable: entry.signaling ? entry.signaling.ok : null,
+    signalingError: entry.signaling?.error ?? null,
+    roomLookupOk: entry.roomLookup ? entry.roomLookup.ok : null,
+    roomLookupError: entry.roomLookup?.error ?? null,
+    reasons,
+  };
+}
+
+/**
+ * Readiness of the given (enabled) accounts; degraded when any of them is. Accounts
+ * whose monitor never registered are reported as not running.
+ */
+export function resolveNextcloudTalkReadiness(
+  configured: Iterable<ResolvedNextcloudTalkAccount>,
+): NextcloudTalkReadiness {
+  const accounts: Record<string, NextcloudTalkAccountReadiness> = {};
+  for (const account of configured) {
+    accounts[account.accountId] = resolveAccountReadiness(
+      diagnostics.get(account.accountId) ?? {
+        missing: resolveNextcloudTalkMissingConfig(account),
+        started: false,
+      },
+    );
+  }
+  const degraded = Object.values(accounts).some((account) => account.status === "degraded");
+  return { status: degraded ? "degraded" : "ok", accounts };
+}
+
+/** Forget all recorded state. Intended for tests. */
+export function resetNextcloudTalkDiagnostics(): void {
+  diagnostics.clear();
+}
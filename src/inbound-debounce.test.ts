@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createNextcloudTalkInboundDebouncer } from "./inbound-debounce.js";
+import type { NextcloudTalkInboundMessage } from "./types.js";
+
+function makeMessage(
+  id: string,
+  text: string,
+  overrides: Partial<NextcloudTalkInboundMessage> = {},
+): NextcloudTalkInboundMessage {
+  return {
+    messageId: id,
+    roomToken: "room123",
+    roomName: "Room",
+    senderId: "users/alice",
+    senderName: "Alice",
+    text,
+    mediaType: "text/markdown",
+    timestamp: 1_700_000_000_000,
+    isGroupChat: true,
+    ...overrides,
+  };
+}
+
+describe("nextcloud-talk inbound debounce", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("merges quick consecutive messages from one sender into one turn", () => {
+    const flushed: NextcloudTalkInboundMessage[] = [];
+    const debouncer = createNextcloudTalkInboundDebouncer({
+      windowMs: 1000,
+      flush: (message) => flushed.push(message),
+    });
+
+    debouncer.push(makeMessage("1", "first"));
+    vi.advanceTimersByTime(800);
+    debouncer.push(
+      makeMessage("2", "second", {
+        fileParameters: [{ type: "file", id: "9", name: "a.png" }],
+      }),
+    );
+    vi.advanceTimersByTime(800);
+    expect(flushed).toHaveLength(0);
+
+    vi.advanceTimersByTime(200);
+    expect(flushed).toHaveLength(1);
+    expect(flushed[0]).toMatchObject({ messageId: "2", text: "first\nsecond" });
+    expect(flushed[0].fileParameters).toHaveLength(1);
+  });
+
+  it("keeps senders apart and caps the wait", () => {
+    const flushed: NextcloudTalkInboundMessage[] = [];
+    const debouncer = createNextcloudTalkInboundDebouncer({
+      windowMs: 1000,
+      maxWaitMs: 1500,
+      flush: (message) => flushed.push(message),
+    });
+
+    debouncer.push(makeMessage("1", "from alice"));
+    debouncer.push(makeMessage("2", "from bob", { senderId: "users/bob" }));
+    vi.advanceTimersByTime(900);
+    debouncer.push(makeMessage("3", "alice again"));
+    vi.advanceTimersByTime(100);
+    expect(flushed.map((message) => message.text)).toEqual(["from bob"]);
+
+    vi.advanceTimersByTime(500);
+    expect(flushed.map((message) => message.text)).toEqual(["from bob", "from alice\nalice again"]);
+  });
+
+  it("lets control commands skip the window after flushing the held batch", () => {
+    const flushed: NextcloudTalkInboundMessage[] = [];
+    const debouncer = createNextcloudTalkInboundDebouncer({
+      windowMs: 1000,
+      shouldBypass: (message) => message.text.startsWith("/"),
+      flush: (message) => flushed.push(message),
+    });
+
+    debouncer.push(makeMessage("1", "hello"));
+    debouncer.push(makeMessage("2", "/stop"));
+    expect(flushed.map((message) => message.text)).toEqual(["hello", "/stop"]);
+    expect(debouncer.size()).toBe(0);
+  });
+
+  it("releases held batches on flushAll", () => {
+    const flushed: NextcloudTalkInboundMessage[] = [];
+    const debouncer = createNextcloudTalkInboundDebouncer({
+      windowMs: 1000,
+      flush: (message) => flushed.push(message),
+    });
+
+    debouncer.push(makeMessage("1", "pending"));
+    debouncer.flushAll();
+    expect(flushed).toHaveLength(1);
+    vi.advanceTimersByTime(2000);
+    expect(flushed).toHaveLength(1);
+  });
+
+  it("reports held messages per room with the ids merged into them", () => {
+    const debouncer = createNextcloudTalkInboundDebouncer({ windowMs: 1000, flush: () => {} });
+
+    debouncer.push(makeMessage("1", "first"));
+    debouncer.push(makeMessage("2", "second"));
+    debouncer.push(makeMessage("3", "elsewhere", { roomToken: "room456" }));
+
+    const held = debouncer.pending("room123");
+    expect(held).toHaveLength(1);
+    expect(held[0]).toMatchObject({ messageId: "2", mergedMessageIds: ["1"] });
+    debouncer.flushAll();
+    expect(debouncer.pending("room123")).toEqual([]);
+  });
+
+  it("holds typing while a batch waits and cancels it on release", () => {
+    const flushed: NextcloudTalkInboundMessage[] = [];
+    const unhold = vi.fn();
+    const onHold = vi.fn(() => unhold);
+    const debouncer = createNextcloudTalkInboundDebouncer({
+      windowMs: 1000,
+      onHold,
+      flush: (message) => {
+        expect(unhold).toHaveBeenCalledTimes(1);
+        flushed.push(message);
+      },
+    });
+
+    debouncer.push(makeMessage("1", "first"));
+    vi.advanceTimersByTime(900);
+    debouncer.push(makeMessage("2", "second"));
+    expect(onHold).toHaveBeenCalledTimes(1);
+    expect(unhold).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(flushed).toHaveLength(1);
+  });
+});
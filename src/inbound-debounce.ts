@@ -0,0 +1,103 @@
+/**
+ * Per-sender inbound debouncing. People often send one thought as several quick
+ * lines; messages from the same sender in the same room (or thread) that arrive
+ * within the debounce window are merged, attachments included, into one agent turn.
+ *
+ * While a batch is held, `onHold` can show a typing indicator; each follow-up extends
+ * it along with the window, and it is cancelled when the batch is released to run.
+ */
+
+import {
+  mergeNextcloudTalkInboundMessages,
+  resolveNextcloudTalkQueueKey,
+} from "./inbound-queue.js";
+import type { NextcloudTalkInboundMessage } from "./types.js";
+
+export type NextcloudTalkInboundDebouncer = {
+  /** Hold a message, merging it into the sender's pending batch. */
+  push: (message: NextcloudTalkInboundMessage) => void;
+  /** Release every pending batch immediately (e.g. on shutdown). */
+  flushAll: () => void;
+  /** Batches currently held. */
+  size: () => number;
+  /** Messages held for a room, across its threads and senders. */
+  pending: (roomToken: string) => NextcloudTalkInboundMessage[];
+};
+
+type PendingBatch = {
+  message: NextcloudTalkInboundMessage;
+  firstAt: number;
+  timer: ReturnType<typeof setTimeout>;
+  unhold?: () => void;
+};
+
+export function createNextcloudTalkInboundDebouncer(params: {
+  /** Quiet period that ends a batch; 0 disables debouncing. */
+  windowMs: number;
+  /** Longest a batch is held after its first message. Default: 4 × `windowMs`. */
+  maxWaitMs?: number;
+  /** Messages that skip the window (control commands, edits); they flush their batch first. */
+  shouldBypass?: (message: NextcloudTalkInboundMessage) => boolean;
+  /** Called when a batch starts; the returned function runs when the batch is released. */
+  onHold?: (message: NextcloudTalkInboundMessage) => () => void;
+  flush: (message: NextcloudTalkInboundMessage) => void;
+}): NextcloudTalkInboundDebouncer {
+  const { windowMs, flush } = params;
+  const maxWaitMs = params.maxWaitMs ?? windowMs * 4;
+  const pending = new Map<string, PendingBatch>();
+
+  const release = (key: string) => {
+    const batch = pending.get(key);
+    if (!batch) {
+      return;
+    }
+    clearTimeout(batch.timer);
+    pending.delete(key);
+    batch.unhold?.();
+    flush(batch.message);
+  };
+
+  const schedule = (key: string, firstAt: number) => {
+    const delay = Math.min(windowMs, firstAt + maxWaitMs - Date.now());
+    return setTimeout(() => release(key), Math.max(0, delay));
+  };
+
+  const push = (message: NextcloudTalkInboundMessage) => {
+    if (windowMs <= 0) {
+      flush(message);
+      return;
+    }
+    const key = `${resolveNextcloudTalkQueueKey(message)}:${message.senderId}`;
+    if (message.event || params.shouldBypass?.(message)) {
+      release(key);
+      flush(message);
+      return;
+    }
+
+    const batch = pending.get(key);
+    const merged = batch ? mergeNextcloudTalkInboundMessages(batch.message, message) : null;
+    if (batch && merged) {
+      clearTimeout(batch.timer);
+      batch.message = merged;
+      batch.timer = schedule(key, batch.firstAt);
+      return;
+    }
+    release(key);
+    const firstAt = Date.now();
+    const unhold = params.onHold?.(message);
+    pending.set(key, { message, firstAt, timer: schedule(key, firstAt), unhold });
+  };
+
+  const flushAll = () => {
+    for (const key of [...pending.keys()]) {
+      release(key);
+    }
+  };
+
+  const pendingFor = (roomToken: string) =>
+    [...pending.values()]
+      .map((batch) => batch.message)
+      .filter((message) => message.roomToken === roomToken);
+
+  return { push, flushAll, size: () => pending.size, pending: pendingFor };
+}
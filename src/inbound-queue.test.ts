@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { createNextcloudTalkInboundScheduler } from "./inbound-queue.js";
+import type { NextcloudTalkInboundMessage } from "./types.js";
+
+function makeMessage(
+  overrides: Partial<NextcloudTalkInboundMessage> = {},
+): NextcloudTalkInboundMessage {
+  return {
+    messageId: "1",
+    roomToken: "room1",
+    roomName: "Room",
+    senderId: "users/alice",
+    senderName: "Alice",
+    text: "hello",
+    mediaType: "text/plain",
+    timestamp: 0,
+    isGroupChat: true,
+    ...overrides,
+  };
+}
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("nextcloud-talk inbound scheduler", () => {
+  it("runs messages of one room in order, one at a time", async () => {
+    const started: string[] = [];
+    const gates = new Map<string, ReturnType<typeof deferred>>();
+    const scheduler = createNextcloudTalkInboundScheduler({
+      run: async (message) => {
+        started.push(message.messageId);
+        const gate = deferred();
+        gates.set(message.messageId, gate);
+        await gate.promise;
+      },
+    });
+    scheduler.enqueue(makeMessage({ messageId: "1" }));
+    scheduler.enqueue(makeMessage({ messageId: "2" }));
+    expect(started).toEqual(["1"]);
+    gates.get("1")?.resolve();
+    await flush();
+    expect(started).toEqual(["1", "2"]);
+    gates.get("2")?.resolve();
+    await flush();
+    expect(scheduler.size()).toBe(0);
+  });
+
+  it("reports a room as idle once none of its threads has work left", async () => {
+    const gates = new Map<string, ReturnType<typeof deferred>>();
+    const idle: string[] = [];
+    const scheduler = createNextcloudTalkInboundScheduler({
+      run: async (message) => {
+        const gate = deferred();
+        gates.set(message.messageId, gate);
+        await gate.promise;
+      },
+      onRoomIdle: (roomToken) => idle.push(roomToken),
+    });
+    scheduler.enqueue(makeMessage({ messageId: "1" }));
+    scheduler.enqueue(makeMessage({ messageId: "2", threadId: "7" }));
+
+    gates.get("2")?.resolve();
+    await flush();
+    expect(idle).toEqual([]);
+    gates.get("1")?.resolve();
+    await flush();
+    expect(idle).toEqual(["room1"]);
+  });
+
+  it("caps the number of rooms processed at once", () => {
+    const started: string[] = [];
+    const scheduler = createNextcloudTalkInboundScheduler({
+      maxConcurrentRooms: 2,
+      run: async (message) => {
+        started.push(message.roomToken);
+        await new Promise(() => undefined);
+      },
+    });
+    scheduler.enqueue(makeMessage({ roomToken: "a" }));
+    scheduler.enqueue(makeMessage({ roomToken: "b" }));
+    scheduler.enqueue(makeMessage({ roomToken: "c" }));
+    expect(started).toEqual(["a", "b"]);
+  });
+
+  it("applies the overflow policy when a room queue is full", () => {
+    const dropped: string[] = [];
+    const make = (overflow: "drop-oldest" | "drop-newest" | "merge") =>
+      createNextcloudTalkInboundScheduler({
+        maxQueueDepth: 1,
+        overflow,
+        run: () => new Promise(() => undefined),
+        onDrop: (message) => dropped.push(`${overflow}:${message.messageId}`),
+      });
+
+    const oldest = make("drop-oldest");
+    const newest = make("drop-newest");
+    const merge = make("merge");
+    for (const scheduler of [oldest, newest, merge]) {
+      scheduler.enqueue(makeMessage({ messageId: "1" }));
+      scheduler.enqueue(makeMessage({ messageId: "2", text: "a" }));
+      scheduler.enqueue(makeMessage({ messageId: "3", text: "b" }));
+    }
+    expect(dropped).toEqual(["drop-oldest:2", "drop-newest:3"]);
+    expect(merge.size()).toBe(2);
+  });
+
+  it("drains running turns and returns what is still pending", async () => {
+    const gates = new Map<string, ReturnType<typeof deferred>>();
+    const started: string[] = [];
+    const scheduler = createNextcloudTalkInboundScheduler({
+      run: async (message) => {
+        started.push(message.messageId);
+        const gate = deferred();
+        gates.set(message.messageId, gate);
+        await gate.promise;
+      },
+    });
+    scheduler.enqueue(makeMessage({ messageId: "1" }));
+    scheduler.enqueue(makeMessage({ messageId: "2" }));
+    scheduler.enqueue(makeMessage({ messageId: "3", roomToken: "room2" }));
+
+    const drained = scheduler.drain(1_000);
+    gates.get("1")?.resolve();
+    gates.get("3")?.resolve();
+    const pending = await drained;
+
+    expect(started).toEqual(["1", "3"]);
+    expect(pending.map((message) => message.messageId)).toEqual(["2"]);
+  });
+
+  it("leaves turns still running at the drain deadline out of the pending list", async () => {
+    const scheduler = createNextcloudTalkInboundScheduler({
+      run: () => new Promise<void>(() => {}),
+    });
+    scheduler.enqueue(makeMessage({ messageId: "1" }));
+    scheduler.enqueue(makeMessage({ messageId: "2" }));
+
+    const pending = await scheduler.drain(10);
+    expect(pending.map((message) => message.messageId)).toEqual(["2"]);
+    expect(scheduler.size()).toBe(2);
+  });
+});
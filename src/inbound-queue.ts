@@ -0,0 +1,188 @@
+/**
+ * Per-room inbound scheduler for Nextcloud Talk.
+ *
+ * Messages for the same room (or thread) run strictly in order, one agent turn at a
+ * time. Different rooms run concurrently up to `maxConcurrentRooms`; rooms with more
+ * work go to the back of the line after each turn so a busy room cannot starve the
+ * others. Each room queue is bounded and handles overflow according to policy.
+ */
+
+import type { NextcloudTalkInboundMessage, NextcloudTalkQueueOverflow } from "./types.js";
+
+export type NextcloudTalkInboundScheduler = {
+  /** Queue a message for its room. Never throws; drops are reported via onDrop. */
+  enqueue: (message: NextcloudTalkInboundMessage) => void;
+  /** Messages waiting or running across all rooms. */
+  size: () => number;
+  /** Messages of one room (any thread) that are waiting or running. */
+  pending: (roomToken: string) => NextcloudTalkInboundMessage[];
+  /**
+   * Stop starting new turns and wait up to `timeoutMs` for running ones to finish.
+   * Resolves with the queued messages that never started, in room order. Turns still
+   * running at the deadline are not included: they may already have replied, so
+   * running them again would answer twice.
+   */
+  drain: (timeoutMs: number) => Promise<NextcloudTalkInboundMessage[]>;
+};
+
+const DEFAULT_MAX_CONCURRENT_ROOMS = 4;
+const DEFAULT_MAX_QUEUE_DEPTH = 20;
+const DEFAULT_OVERFLOW: NextcloudTalkQueueOverflow = "drop-oldest";
+
+export function resolveNextcloudTalkQueueKey(message: NextcloudTalkInboundMessage): string {
+  return message.threadId ? `${message.roomToken}:${message.threadId}` : message.roomToken;
+}
+
+/**
+ * Fold `next` into `previous` so both reach the agent as a single turn. Only plain
+ * messages from the same sender can be merged; anything else returns null.
+ */
+export function mergeNextcloudTalkInboundMessages(
+  previous: NextcloudTalkInboundMessage,
+  next: NextcloudTalkInboundMessage,
+): NextcloudTalkInboundMessage | null {
+  if (previous.event || next.event || previous.senderId !== next.senderId) {
+    return null;
+  }
+  const fileParameters = [...(previous.fileParameters ?? []), ...(next.fileParameters ?? [])];
+  const richObjects = [...(previous.richObjects ?? []), ...(next.richObjects ?? [])];
+  const joinTexts = (...texts: string[]) => texts.filter((text) => text.trim()).join("\n");
+  return {
+    ...next,
+    text: joinTexts(previous.text, next.text),
+    mentionFreeText:
+      previous.mentionFreeText !== undefined || next.mentionFreeText !== undefined
+        ? joinTexts(previous.mentionFreeText ?? previous.text, next.mentionFreeText ?? next.text)
+        : undefined,
+    fileParameters: fileParameters.length > 0 ? fileParameters : undefined,
+    richObjects: richObjects.length > 0 ? richObjects : undefined,
+    mergedMessageIds: [
+      ...(previous.mergedMessageIds ?? []),
+      previous.messageId,
+      ...(next.mergedMessageIds ?? []),
+    ],
+  };
+}
+
+/** Numeric ids of a message and of every message merged into it. */
+export function resolveNextcloudTalkMessageIds(message: NextcloudTalkInboundMessage): number[] {
+  return [...(message.mergedMessageIds ?? []), message.messageId].map(Number);
+}
+
+export function createNextcloudTalkInboundScheduler(params: {
+  maxConcurrentRooms?: number;
+  maxQueueDepth?: number;
+  overflow?: NextcloudTalkQueueOverflow;
+  run: (message: NextcloudTalkInboundMessage) => Promise<void>;
+  onDrop?: (message: NextcloudTalkInboundMessage, reason: string) => void;
+  onError?: (error: unknown, message: NextcloudTalkInboundMessage) => void;
+  /** Called when a room (all its threads) has no queued or running messages left. */
+  onRoomIdle?: (roomToken: string) => void;
+}): NextcloudTalkInboundScheduler {
+  const maxConcurrentRooms = params.maxConcurrentRooms ?? DEFAULT_MAX_CONCURRENT_ROOMS;
+  const maxQueueDepth = params.maxQueueDepth ?? DEFAULT_MAX_QUEUE_DEPTH;
+  const overflow = params.overflow ?? DEFAULT_OVERFLOW;
+
+  const queues = new Map<string, NextcloudTalkInboundMessage[]>();
+  const running = new Map<string, NextcloudTalkInboundMessage>();
+  // Rooms with queued work that are not currently running, in arrival order.
+  const ready: string[] = [];
+  let draining = false;
+  let onIdle: (() => void) | undefined;
+
+  const pump = () => {
+    if (draining) {
+      if (running.size === 0) {
+        onIdle?.();
+      }
+      return;
+    }
+    while (running.size < maxConcurrentRooms && ready.length > 0) {
+      const key = ready.shift() as string;
+      const queue = queues.get(key);
+      const message = queue?.shift();
+      if (!message) {
+        queues.delete(key);
+        continue;
+      }
+      running.set(key, message);
+      void params
+        .run(message)
+        .catch((err) => params.onError?.(err, message))
+        .finally(() => {
+          running.delete(key);
+          if (queue && queue.length > 0) {
+            ready.push(key);
+          } else {
+            queues.delete(key);
+          }
+          if (pending(message.roomToken).length === 0) {
+            params.onRoomIdle?.(message.roomToken);
+          }
+          pump();
+        });
+    }
+  };
+
+  const enqueue = (message: NextcloudTalkInboundMessage) => {
+    const key = resolveNextcloudTalkQueueKey(message);
+    let queue = queues.get(key);
+    if (!queue) {
+      queue = [];
+      queues.set(key, queue);
+    }
+
+    if (queue.length >= maxQueueDepth) {
+      if (overflow === "drop-newest") {
+        params.onDrop?.(message, "queue full (drop-newest)");
+        return;
+      }
+      const last = queue[queue.length - 1];
+      const merged =
+        overflow === "merge" && last ? mergeNextcloudTalkInboundMessages(last, message) : null;
+      if (merged) {
+        queue[queue.length - 1] = merged;
+        return;
+      }
+      const dropped = queue.shift();
+      if (dropped) {
+        params.onDrop?.(dropped, `queue full (${overflow === "merge" ? "merge" : "drop-oldest"})`);
+      }
+    }
+
+    queue.push(message);
+    if (!running.has(key) && !ready.includes(key)) {
+      ready.push(key);
+    }
+    pump();
+  };
+
+  const size = () => {
+    let total = running.size;
+    for (const queue of queues.values()) {
+      total += queue.length;
+    }
+    return total;
+  };
+
+  const pending = (roomToken: string) =>
+    [...running.values(), ...[...queues.values()].flat()].filter(
+      (message) => message.roomToken === roomToken,
+    );
+
+  const drain = (timeoutMs: number): Promise<NextcloudTalkInboundMessage[]> => {
+    draining = true;
+    return new Promise((resolve) => {
+      const finish = () => {
+        clearTimeout(timer);
+        onIdle = undefined;
+        resolve([...queues.values()].flat());
+      };
+      const timer = setTimeout(finish, timeoutMs);
+      onIdle = finish;
+      pump();
+    });
+  };
+
+  return { enqueue, size, pending, drain };
+}
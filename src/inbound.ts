@@ -19,19 +19,65 @@ import {
   type RuntimeEnv,
 } from "openclaw/plugin-sdk";
 import type { ResolvedNextcloudTalkAccount } from "./accounts.js";
+import { formatNextcloudTalkActorKey, parseNextcloudTalkActorId } from "./actors.js";
+import { type NextcloudTalkInboundMedia, resolveNextcloudTalkInboundMedia } from "./attachments.js";
+import { recordNextcloudTalkSignalingResult } from "./diagnostics.js";
+import {
+  checkNextcloudTalkLoopBreaker,
+  isNextcloudTalkBotAllowed,
+  isNextcloudTalkOwnMessage,
+  isNextcloudTalkOwnReference,
+  isNextcloudTalkOwnShare,
+} from "./loop-guard.js";
+import {
+  forgetNextcloudTalkMessage,
+  formatNextcloudTalkDeleteNote,
+  formatNextcloudTalkEditNote,
+  lookupNextcloudTalkMessage,
+  rememberNextcloudTalkMessage,
+  resolveNextcloudTalkEditAction,
+} from "./message-edits.js";
+import {
+  formatNextcloudTalkMentionsNote,
+  resolveNextcloudTalkMentionPatternText,
+  resolveNextcloudTalkMentions,
+  resolveNextcloudTalkSelfMentionIds,
+} from "./mentions.js";
+import {
+  observeNextcloudTalkTurnDuration,
+  recordNextcloudTalkCacheLookup,
+  recordNextcloudTalkDrop,
+  recordNextcloudTalkTypingFailure,
+} from "./metrics.js";
 import {
   normalizeNextcloudTalkAllowlist,
   resolveNextcloudTalkAllowlistMatch,
   resolveNextcloudTalkGroupAllow,
+  resolveNextcloudTalkGuestPolicy,
+  resolveNextcloudTalkMentionAll,
   resolveNextcloudTalkMentionGate,
   resolveNextcloudTalkRequireMention,
   resolveNextcloudTalkRoomMatch,
+  resolveNextcloudTalkSilent,
 } from "./policy.js";
+import { formatNextcloudTalkRichObjectsNote } from "./rich-content.js";
 import { resolveNextcloudTalkRoomKind } from "./room-info.js";
 import { getNextcloudTalkRuntime } from "./runtime.js";
-import { sendMessageNextcloudTalk } from "./send.js";
-import { createNcTalkTypingManager } from "./signaling-typing.js";
-import type { CoreConfig, GroupPolicy, NextcloudTalkInboundMessage } from "./types.js";
+import {
+  buildNextcloudTalkReferenceId,
+  editMessageNextcloudTalk,
+  isNextcloudTalkEditUnsupportedError,
+  sendMessageNextcloudTalk,
+} from "./send.js";
+import { createNcTalkTypingManager, type NcTalkTypingManager } from "./signaling-typing.js";
+import { createNextcloudTalkEditStream } from "./stream-edit.js";
+import { resolveNextcloudTalkVoiceTranscripts } from "./transcription.js";
+import type {
+  CoreConfig,
+  GroupPolicy,
+  NextcloudTalkEditPolicy,
+  NextcloudTalkInboundMessage,
+} from "./types.js";
 
 const CHANNEL_ID = "nextcloud-talk" as const;
 
@@ -68,7 +114,14 @@ function resolveNcApiPassword(cfg: {
 
 /** Strip HTML tags from a string (simple regex, sufficient for NC Talk messages). */
 function stripHtml(text: string): string {
-  return text.replace(/<[^>]*>/g, "").replace(/&amp;/g, "&").replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&#39;/g, "'").trim();
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .trim();
 }
 
 /** Simple bounded Map-based cache for parent message lookups. */
@@ -106,6 +159,7 @@ async function fetchReplyParentText(params: {
   roomToken: string;
   /** The ID of the incoming message (not threadId). */
   messageId: string;
+  accountId: string;
   allowInsecureSsl?: boolean;
 }): Promise<string | null> {
   const { baseUrl, apiUser, apiPassword, roomToken, messageId } = params;
@@ -116,6 +170,7 @@ async function fetchReplyParentText(params: {
 
   const cacheKey = `${roomToken}:${messageId}`;
   const cached = cacheGet(cacheKey);
+  recordNextcloudTalkCacheLookup(params.accountId, "parent", cached !== undefined);
   if (cached !== undefined) return cached;
 
   try {
@@ -132,9 +187,9 @@ async function fetchReplyParentText(params: {
           {
             method: "GET",
             headers: {
-              "Authorization": `Basic ${auth}`,
+              Authorization: `Basic ${auth}`,
               "OCS-APIRequest": "true",
-              "Accept": "application/json",
+              Accept: "application/json",
             },
             rejectUnauthorized: params.allowInsecureSsl ? false : true,
           },
@@ -142,7 +197,10 @@ async function fetchReplyParentText(params: {
             const chunks: Buffer[] = [];
             res.on("data", (chunk: Buffer) => chunks.push(chunk));
             res.on("end", () =>
-              resolve({ statusCode: res.statusCode ?? 0, body: Buffer.concat(chunks).toString("utf-8") }),
+              resolve({
+                statusCode: res.statusCode ?? 0,
+                body: Buffer.concat(chunks).toString("utf-8"),
+              }),
             );
           },
         );
@@ -193,10 +251,89 @@ async function fetchReplyParentText(params: {
   }
 }
 
+/** Typing managers of turns in progress, per account, so shutdown can clear typing state. */
+const activeTypingManagers = new Map<string, Set<NcTalkTypingManager>>();
+
+function resolveActiveTypingManagers(accountId: string): Set<NcTalkTypingManager> {
+  let managers = activeTypingManagers.get(accountId);
+  if (!managers) {
+    managers = new Set();
+    activeTypingManagers.set(accountId, managers);
+  }
+  return managers;
+}
+
+/** Send typing=false for every turn of the account that is still in progress. */
+export async function stopNextcloudTalkTyping(accountId: string): Promise<void> {
+  const managers = [...(activeTypingManagers.get(accountId) ?? [])];
+  await Promise.allSettled(managers.map((mgr) => mgr.stop()));
+}
+
+function createNextcloudTalkTyping(params: {
+  account: ResolvedNextcloudTalkAccount;
+  roomToken: string;
+  runtime: RuntimeEnv;
+}):
+  | { manager: NcTalkTypingManager; callbacks: ReturnType<typeof createTypingCallbacks> }
+  | undefined {
+  const { account, roomToken, runtime } = params;
+  const apiUser = account.config.apiUser?.trim();
+  const apiPassword = resolveNcApiPassword(account.config);
+  if (!apiUser || !apiPassword) return undefined;
+  const manager = createNcTalkTypingManager({
+    baseUrl: account.baseUrl,
+    apiUser,
+    apiPassword,
+    roomToken,
+    allowInsecureSsl: account.config.allowInsecureSsl ?? false,
+  });
+  const callbacks = createTypingCallbacks({
+    start: async () => {
+      await manager.sendTyping();
+      recordNextcloudTalkSignalingResult(account.accountId);
+    },
+    stop: () => manager.stop(),
+    onStartError: (err) => {
+      recordNextcloudTalkTypingFailure(account.accountId);
+      recordNextcloudTalkSignalingResult(account.accountId, err);
+      logTypingFailure({
+        log: runtime.log ?? (() => undefined),
+        channel: CHANNEL_ID,
+        target: roomToken,
+        error: err,
+      });
+    },
+  });
+  return { manager, callbacks };
+}
+
+/**
+ * Show typing in a room while a debounced batch from it is held, so the sender sees
+ * their messages were picked up. The indicator keeps going as follow-ups extend the
+ * batch; call the returned function to stop it when the batch is released.
+ */
+export function holdNextcloudTalkTyping(params: {
+  account: ResolvedNextcloudTalkAccount;
+  roomToken: string;
+  runtime: RuntimeEnv;
+}): () => void {
+  const typing = createNextcloudTalkTyping(params);
+  if (!typing) return () => undefined;
+  const managers = resolveActiveTypingManagers(params.account.accountId);
+  managers.add(typing.manager);
+  void typing.callbacks.onReplyStart();
+  return () => {
+    managers.delete(typing.manager);
+    typing.callbacks.onIdle?.();
+  };
+}
+
 async function deliverNextcloudTalkReply(params: {
   payload: OutboundReplyPayload;
   roomToken: string;
   accountId: string;
+  referenceId?: string;
+  silent: boolean;
   statusSink?: (patch: { lastOutboundAt?: number }) => void;
 }): Promise<void> {
   const { payload, roomToken, accountId, statusSink } = params;
@@ -208,10 +345,76 @@ async function deliverNextcloudTalkReply(params: {
   await sendMessageNextcloudTalk(roomToken, combined, {
     accountId,
     replyTo: payload.replyToId,
+    referenceId: params.referenceId,
+    silent: params.silent,
   });
   statusSink?.({ lastOutboundAt: Date.now() });
 }
 
+/**
+ * Apply an edit or delete event to the session of the original message.
+ * Returns the edit action so the caller can re-run the pipeline for "rerun";
+ * every other outcome is fully handled here.
+ */
+function handleNextcloudTalkMessageChange(params: {
+  message: NextcloudTalkInboundMessage;
+  account: ResolvedNextcloudTalkAccount;
+  runtime: RuntimeEnv;
+  text: string;
+}): NextcloudTalkEditPolicy {
+  const { message, account, runtime, text } = params;
+  const core = getNextcloudTalkRuntime();
+  const ref = {
+    accountId: account.accountId,
+    roomToken: message.roomToken,
+    messageId: message.messageId,
+  };
+  const tracked = lookupNextcloudTalkMessage(ref);
+  const contextKey = `nextcloud-talk:${message.event}:${message.roomToken}:${message.messageId}`;
+
+  if (message.event === "delete") {
+    if (!tracked) {
+      runtime.log?.(`nextcloud-talk: drop delete ${message.messageId} (unknown message)`);
+      return "ignore";
+    }
+    forgetNextcloudTalkMessage(ref);
+    core.system.enqueueSystemEvent(
+      formatNextcloudTalkDeleteNote({
+        senderName: message.senderName,
+        messageId: message.messageId,
+        previousText: tracked.text,
+      }),
+      { sessionKey: tracked.sessionKey, contextKey },
+    );
+    return "ignore";
+  }
+
+  const action = resolveNextcloudTalkEditAction({
+    policy: account.config.editPolicy,
+    windowSeconds: account.config.editWindowSeconds,
+    originalReceivedAt: tracked?.receivedAt,
+    now: message.timestamp,
+  });
+  if (action === "ignore" || !text) {
+    runtime.log?.(`nextcloud-talk: drop edit ${message.messageId} (policy=${action})`);
+    recordNextcloudTalkDrop(account.accountId, "edit_ignored");
+    return "ignore";
+  }
+  if (action === "note" && tracked) {
+    rememberNextcloudTalkMessage({ ...ref, message: { ...tracked, text } });
+    core.system.enqueueSystemEvent(
+      formatNextcloudTalkEditNote({
+        senderName: message.senderName,
+        messageId: message.messageId,
+        previousText: tracked.text,
+        text,
+      }),
+      { sessionKey: tracked.sessionKey, contextKey },
+    );
+  }
+  return action;
+}
+
 export async function handleNextcloudTalkInbound(params: {
   message: NextcloudTalkInboundMessage;
   account: ResolvedNextcloudTalkAccount;
@@ -227,7 +430,27 @@ export async function handleNextcloudTalkInbound(params: {
     accountId: account.accountId,
   });
 
+  if (
+    isNextcloudTalkOwnMessage({
+      accountId: account.accountId,
+      roomToken: message.roomToken,
+      messageId: message.messageId,
+    }) ||
+    (message.referenceId && isNextcloudTalkOwnReference(account.accountId, message.referenceId))
+  ) {
+    runtime.log?.(`nextcloud-talk: drop own message ${message.messageId}`);
+    recordNextcloudTalkDrop(account.accountId, "own_message");
+    return;
+  }
+
   const rawBody = message.text?.trim() ?? "";
+  let editAction: NextcloudTalkEditPolicy | undefined;
+  if (message.event === "edit" || message.event === "delete") {
+    editAction = handleNextcloudTalkMessageChange({ message, account, runtime, text: rawBody });
+    if (editAction !== "rerun") {
+      return;
+    }
+  }
   if (!rawBody) {
     return;
   }
@@ -238,13 +461,35 @@ export async function handleNextcloudTalkInbound(params: {
     runtime,
   });
   const isGroup = roomKind === "direct" ? false : roomKind === "group" ? true : message.isGroupChat;
-  const senderId = message.senderId;
+  const actor = parseNextcloudTalkActorId(message.senderId);
+  const senderId = formatNextcloudTalkActorKey(actor);
+  // DM sessions and pairing requests keep the raw actor id (`users/alice`) they were
+  // keyed by before actor parsing, so existing sessions and requests carry over.
+  const peerId = message.senderId;
   const senderName = message.senderName;
+  // Media shares are posted as the API user; drop the ones this process made, but not
+  // the messages of a person whose account doubles as the API user.
+  const ownApiUser = account.config.apiUser?.trim().toLowerCase();
+  if (
+    actor.type === "user" &&
+    ownApiUser &&
+    actor.id.toLowerCase() === ownApiUser &&
+    message.fileParameters?.some((file) =>
+      isNextcloudTalkOwnShare({
+        accountId: account.accountId,
+        roomToken: message.roomToken,
+        fileName: file.name,
+      }),
+    )
+  ) {
+    runtime.log?.(`nextcloud-talk: drop own file share ${message.messageId}`);
+    recordNextcloudTalkDrop(account.accountId, "own_message");
+    return;
+  }
   const roomToken = message.roomToken;
   const roomName = message.roomName;
   const threadId = message.threadId;
 
-
   statusSink?.({ lastInboundAt: message.timestamp });
 
   const dmPolicy = account.config.dmPolicy ?? "pairing";
@@ -283,15 +528,59 @@ export async function handleNextcloudTalkInbound(params: {
   const roomConfig = roomMatch.roomConfig;
   if (isGroup && !roomMatch.allowed) {
     runtime.log?.(`nextcloud-talk: drop room ${roomToken} (not allowlisted)`);
+    recordNextcloudTalkDrop(account.accountId, "room_not_allowlisted");
     return;
   }
   if (roomConfig?.enabled === false) {
     runtime.log?.(`nextcloud-talk: drop room ${roomToken} (disabled)`);
+    recordNextcloudTalkDrop(account.accountId, "room_disabled");
     return;
   }
 
   const roomAllowFrom = normalizeNextcloudTalkAllowlist(roomConfig?.allowFrom);
 
+  if (
+    actor.type === "bot" &&
+    !isNextcloudTalkBotAllowed(roomConfig?.allowBots ?? roomMatch.wildcardConfig?.allowBots, actor)
+  ) {
+    runtime.log?.(`nextcloud-talk: drop bot ${senderId} in room ${roomToken} (not in allowBots)`);
+    recordNextcloudTalkDrop(account.accountId, "bot_sender");
+    return;
+  }
+
+  const guestPolicy =
+    actor.type === "guest"
+      ? resolveNextcloudTalkGuestPolicy({
+          accountPolicy: account.config.guestPolicy,
+          roomConfig,
+          wildcardConfig: roomMatch.wildcardConfig,
+        })
+      : undefined;
+  if (guestPolicy === "deny") {
+    runtime.log?.(`nextcloud-talk: drop guest ${senderId} in room ${roomToken} (guest policy)`);
+    recordNextcloudTalkDrop(account.accountId, "guest_denied");
+    return;
+  }
+  if (guestPolicy === "read-only") {
+    const guestRoute = core.channel.routing.resolveAgentRoute({
+      cfg: config as OpenClawConfig,
+      channel: CHANNEL_ID,
+      accountId: account.accountId,
+      peer: { kind: "group", id: roomToken },
+    });
+    const guestLabel = senderName || senderId;
+    core.system.enqueueSystemEvent(
+      `[Guest ${guestLabel} in Nextcloud Talk room ${roomName || roomToken}]: ${rawBody}`,
+      {
+        sessionKey: guestRoute.sessionKey,
+        contextKey: `nextcloud-talk:guest:${roomToken}:${message.messageId}`,
+      },
+    );
+    return;
+  }
+  // Allowed guests skip the sender allowlists; a disabled group policy still applies.
+  const guestAllowed = guestPolicy === "allow" && groupPolicy !== "disabled";
+
   const allowTextCommands = core.channel.commands.shouldHandleTextCommands({
     cfg: config as OpenClawConfig,
     surface: CHANNEL_ID,
@@ -320,9 +609,10 @@ export async function handleNextcloudTalkInbound(params: {
   const commandAuthorized = access.commandAuthorized;
   const effectiveGroupAllowFrom = access.effectiveGroupAllowFrom;
 
-  if (isGroup) {
+  if (isGroup && !guestAllowed) {
     if (access.decision !== "allow") {
       runtime.log?.(`nextcloud-talk: drop group sender ${senderId} (reason=${access.reason})`);
+      recordNextcloudTalkDrop(account.accountId, "sender_not_allowed");
       return;
     }
     const groupAllow = resolveNextcloudTalkGroupAllow({
@@ -333,13 +623,14 @@ export async function handleNextcloudTalkInbound(params: {
     });
     if (!groupAllow.allowed) {
       runtime.log?.(`nextcloud-talk: drop group sender ${senderId} (policy=${groupPolicy})`);
+      recordNextcloudTalkDrop(account.accountId, "sender_not_allowed");
       return;
     }
-  } else {
+  } else if (!isGroup) {
     if (access.decision !== "allow") {
       if (access.decision === "pairing") {
         const { code, created } = await pairing.upsertPairingRequest({
-          id: senderId,
+          id: peerId,
           meta: { name: senderName || undefined },
         });
         if (created) {
@@ -348,10 +639,17 @@ export async function handleNextcloudTalkInbound(params: {
               roomToken,
               core.channel.pairing.buildPairingReply({
                 channel: CHANNEL_ID,
-                idLine: `Your Nextcloud user id: ${senderId}`,
+                idLine: `Your Nextcloud user id: ${peerId}`,
                 code,
               }),
-              { accountId: account.accountId },
+              {
+                accountId: account.accountId,
+                silent: resolveNextcloudTalkSilent({
+                  roomConfig,
+                  wildcardConfig: roomMatch.wildcardConfig,
+                  kind: "pairing",
+                }),
+              },
             );
             statusSink?.({ lastOutboundAt: Date.now() });
           } catch (err) {
@@ -360,6 +658,7 @@ export async function handleNextcloudTalkInbound(params: {
         }
       }
       runtime.log?.(`nextcloud-talk: drop DM sender ${senderId} (reason=${access.reason})`);
+      recordNextcloudTalkDrop(account.accountId, "dm_not_allowed");
       return;
     }
   }
@@ -371,13 +670,31 @@ export async function handleNextcloudTalkInbound(params: {
       reason: "control command (unauthorized)",
       target: senderId,
     });
+    recordNextcloudTalkDrop(account.accountId, "unauthorized_command");
     return;
   }
 
+  // Structured mentions decide first; text patterns (agent names typed without a mention)
+  // only see the text with mentioned display names removed.
+  const mentions = resolveNextcloudTalkMentions({
+    richObjects: message.richObjects,
+    selfIds: resolveNextcloudTalkSelfMentionIds({
+      apiUser: account.config.apiUser,
+      mentionIds: account.config.mentionIds,
+    }),
+    mentionAll: resolveNextcloudTalkMentionAll({
+      roomConfig,
+      wildcardConfig: roomMatch.wildcardConfig,
+    }),
+  });
   const mentionRegexes = core.channel.mentions.buildMentionRegexes(config as OpenClawConfig);
-  const wasMentioned = mentionRegexes.length
-    ? core.channel.mentions.matchesMentionPatterns(rawBody, mentionRegexes)
-    : false;
+  const wasMentioned =
+    mentions.mentionedSelf ||
+    (mentionRegexes.length > 0 &&
+      core.channel.mentions.matchesMentionPatterns(
+        resolveNextcloudTalkMentionPatternText(message),
+        mentionRegexes,
+      ));
   const shouldRequireMention = isGroup
     ? resolveNextcloudTalkRequireMention({
         roomConfig,
@@ -394,6 +711,23 @@ export async function handleNextcloudTalkInbound(params: {
   });
   if (isGroup && mentionGate.shouldSkip) {
     runtime.log?.(`nextcloud-talk: drop room ${roomToken} (no mention)`);
+    recordNextcloudTalkDrop(account.accountId, "no_mention");
+    return;
+  }
+
+  const breaker = checkNextcloudTalkLoopBreaker({
+    accountId: account.accountId,
+    roomToken,
+    sender: actor,
+    config: account.config.loopProtection,
+  });
+  if (!breaker.allowed) {
+    if (breaker.tripped) {
+      runtime.error?.(
+        `nextcloud-talk: bot reply loop in room ${roomToken}; ignoring bots for a cooldown`,
+      );
+    }
+    recordNextcloudTalkDrop(account.accountId, "loop_breaker");
     return;
   }
 
@@ -403,7 +737,7 @@ export async function handleNextcloudTalkInbound(params: {
     accountId: account.accountId,
     peer: {
       kind: isGroup ? "group" : "direct",
-      id: isGroup ? roomToken : senderId,
+      id: isGroup ? roomToken : peerId,
     },
   });
 
@@ -434,6 +768,7 @@ export async function handleNextcloudTalkInbound(params: {
       apiPassword: replyApiPassword,
       roomToken,
       messageId: message.messageId,
+      accountId: account.accountId,
       allowInsecureSsl: account.config.allowInsecureSsl ?? false,
     });
     if (parentQuote) {
@@ -441,6 +776,50 @@ export async function handleNextcloudTalkInbound(params: {
     }
   }
 
+  const mentionsNote = formatNextcloudTalkMentionsNote(mentions);
+  if (mentionsNote) {
+    enrichedBody = `${enrichedBody}\n${mentionsNote}`;
+  }
+  const richObjectsNote = formatNextcloudTalkRichObjectsNote(message.richObjects);
+  if (richObjectsNote) {
+    enrichedBody = `${enrichedBody}\n${richObjectsNote}`;
+  }
+
+  let media: NextcloudTalkInboundMedia[] = [];
+  if (message.fileParameters?.length) {
+    const attachments = await resolveNextcloudTalkInboundMedia({
+      account,
+      files: message.fileParameters,
+      runtime,
+    });
+    media = attachments.media;
+    if (attachments.bodyText) {
+      enrichedBody = `${enrichedBody}\n${attachments.bodyText}`;
+    }
+    const transcripts = await resolveNextcloudTalkVoiceTranscripts({
+      config: account.config.transcription,
+      media,
+      runtime,
+    });
+    if (transcripts) {
+      enrichedBody = `${enrichedBody}\n${transcripts}`;
+    }
+  }
+
+  const previous =
+    editAction === "rerun"
+      ? lookupNextcloudTalkMessage({
+          accountId: account.accountId,
+          roomToken,
+          messageId: message.messageId,
+        })
+      : undefined;
+  if (editAction === "rerun") {
+    enrichedBody = previous
+      ? `[Edited message; previously: "${previous.text}"]\n${enrichedBody}`
+      : `[Edited message]\n${enrichedBody}`;
+  }
+
   const body = core.channel.reply.formatAgentEnvelope({
     channel: "Nextcloud Talk",
     from: fromLabel,
@@ -457,7 +836,7 @@ export async function handleNextcloudTalkInbound(params: {
     BodyForAgent: enrichedBody,
     RawBody: enrichedBody,
     CommandBody: rawBody,
-    From: isGroup ? `nextcloud-talk:room:${roomToken}` : `nextcloud-talk:${senderId}`,
+    From: isGroup ? `nextcloud-talk:room:${roomToken}` : `nextcloud-talk:${peerId}`,
     To: `nextcloud-talk:${roomToken}`,
     SessionKey: route.sessionKey,
     AccountId: route.accountId,
@@ -472,6 +851,12 @@ export async function handleNextcloudTalkInbound(params: {
     WasMentioned: isGroup ? wasMentioned : undefined,
     MessageSid: message.messageId,
     Timestamp: message.timestamp,
+    MediaPath: media[0]?.path,
+    MediaType: media[0]?.contentType,
+    MediaUrl: media[0]?.path,
+    MediaPaths: media.length > 0 ? media.map((item) => item.path) : undefined,
+    MediaUrls: media.length > 0 ? media.map((item) => item.path) : undefined,
+    MediaTypes: media.length > 0 ? media.map((item) => item.contentType ?? "") : undefined,
     OriginatingChannel: CHANNEL_ID,
     OriginatingTo: `nextcloud-talk:${roomToken}`,
     CommandAuthorized: commandAuthorized,
@@ -486,64 +871,129 @@ export async function handleNextcloudTalkInbound(params: {
     },
   });
 
+  rememberNextcloudTalkMessage({
+    accountId: account.accountId,
+    roomToken,
+    messageId: message.messageId,
+    message: {
+      // A re-run keeps the original receive time, so edits cannot extend the edit window.
+      receivedAt: previous?.receivedAt ?? message.timestamp,
+      sessionKey: ctxPayload.SessionKey ?? route.sessionKey,
+      text: rawBody,
+    },
+  });
+
   const { onModelSelected, ...prefixOptions } = createReplyPrefixOptions({
     cfg: config as OpenClawConfig,
     agentId: route.agentId,
     channel: CHANNEL_ID,
     accountId: account.accountId,
   });
-  const deliverReply = createNormalizedOutboundDeliverer(async (payload) => {
-    await deliverNextcloudTalkReply({
-      payload: threadId ? { ...payload, replyToId: payload.replyToId ?? threadId } : payload,
-      roomToken,
-      accountId: account.accountId,
-      statusSink,
+  let chunkIndex = 0;
+  // The message id alone repeats for rerun edits and merged batches; the receive (or
+  // edit) time tells those turns apart while a resumed message keeps its ids.
+  const turnId = `${message.messageId}@${message.timestamp}`;
+  const nextReferenceId = () =>
+    buildNextcloudTalkReferenceId({
+      sessionKey: route.sessionKey,
+      turnId,
+      chunkIndex: chunkIndex++,
     });
+  const silentBlocks = resolveNextcloudTalkSilent({
+    roomConfig,
+    wildcardConfig: roomMatch.wildcardConfig,
+    kind: "block",
   });
+  const silentReplies = resolveNextcloudTalkSilent({
+    roomConfig,
+    wildcardConfig: roomMatch.wildcardConfig,
+    kind: "reply",
+  });
+  const editStream =
+    account.config.blockStreamingMode === "edit"
+      ? createNextcloudTalkEditStream({
+          send: async (text, options) => {
+            const result = await sendMessageNextcloudTalk(roomToken, text, {
+              accountId: account.accountId,
+              replyTo: options.replyTo,
+              referenceId: nextReferenceId(),
+              silent: options.silent,
+            });
+            statusSink?.({ lastOutboundAt: Date.now() });
+            return result;
+          },
+          edit: async (messageId, text) => {
+            await editMessageNextcloudTalk(roomToken, messageId, text, {
+              accountId: account.accountId,
+            });
+            statusSink?.({ lastOutboundAt: Date.now() });
+          },
+          intervalMs: account.config.blockStreamingEditIntervalMs ?? 1000,
+          maxLength: account.config.textChunkLimit ?? 4000,
+          isEditUnsupported: isNextcloudTalkEditUnsupportedError,
+          onFallback: (err) => {
+            runtime.log?.(
+              `nextcloud-talk: edits unavailable in room ${roomToken}, streaming new messages: ` +
+                String(err),
+            );
+          },
+        })
+      : undefined;
+  const createDeliverer = (silent: boolean) =>
+    createNormalizedOutboundDeliverer(async (payload) => {
+      if (editStream && resolveOutboundMediaUrls(payload).length === 0) {
+        await editStream.push(payload.text ?? "", {
+          replyTo: payload.replyToId ?? threadId,
+          silent,
+        });
+        return;
+      }
+      await editStream?.finish();
+      await deliverNextcloudTalkReply({
+        payload: threadId ? { ...payload, replyToId: payload.replyToId ?? threadId } : payload,
+        roomToken,
+        accountId: account.accountId,
+        referenceId: nextReferenceId(),
+        silent,
+        statusSink,
+      });
+    });
+  // Block and tool output are intermediate; only final replies use the `reply` kind.
+  const deliverBlock = createDeliverer(silentBlocks);
+  const deliverFinal = createDeliverer(silentReplies);
 
   // Typing indicators via HPB WebSocket signaling (optional — requires apiUser + apiPassword)
-  const apiUser = account.config.apiUser?.trim();
-  const apiPassword = resolveNcApiPassword(account.config);
-  const typingCallbacks = (() => {
-    if (!apiUser || !apiPassword) return undefined;
-    const mgr = createNcTalkTypingManager({
-      baseUrl: account.baseUrl,
-      apiUser,
-      apiPassword,
-      roomToken,
-      allowInsecureSsl: account.config.allowInsecureSsl ?? false,
-    });
-    return createTypingCallbacks({
-      start: () => mgr.sendTyping(),
-      stop: () => mgr.stop(),
-      onStartError: (err) =>
-        logTypingFailure({
-          log: runtime.log ?? (() => undefined),
-          channel: CHANNEL_ID,
-          target: roomToken,
-          error: err,
-        }),
-    });
-  })();
+  const typing = createNextcloudTalkTyping({ account, roomToken, runtime });
+  const typingManager = typing?.manager;
+  const typingCallbacks = typing?.callbacks;
 
-  await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
-    ctx: ctxPayload,
-    cfg: config as OpenClawConfig,
-    dispatcherOptions: {
-      ...prefixOptions,
-      typingCallbacks,
-      deliver: deliverReply,
-      onError: (err, info) => {
-        runtime.error?.(`nextcloud-talk ${info.kind} reply failed: ${String(err)}`);
+  const turnStartedAt = Date.now();
+  const typingManagers = resolveActiveTypingManagers(account.accountId);
+  if (typingManager) typingManagers.add(typingManager);
+  try {
+    await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+      ctx: ctxPayload,
+      cfg: config as OpenClawConfig,
+      dispatcherOptions: {
+        ...prefixOptions,
+        typingCallbacks,
+        deliver: (payload, info) => (info.kind === "final" ? deliverFinal : deliverBlock)(payload),
+        onError: (err, info) => {
+          runtime.error?.(`nextcloud-talk ${info.kind} reply failed: ${String(err)}`);
+        },
       },
-    },
-    replyOptions: {
-      skillFilter: roomConfig?.skills,
-      onModelSelected,
-      disableBlockStreaming:
-        typeof account.config.blockStreaming === "boolean"
-          ? !account.config.blockStreaming
-          : undefined,
-    },
-  });
+      replyOptions: {
+        skillFilter: roomConfig?.skills,
+        onModelSelected,
+        disableBlockStreaming:
+          typeof account.config.blockStreaming === "boolean"
+            ? !account.config.blockStreaming
+            : undefined,
+      },
+    });
+    await editStream?.finish();
+  } finally {
+    if (typingManager) typingManagers.delete(typingManager);
+  }
+  observeNextcloudTalkTurnDuration(account.accountId, Date.now() - turnStartedAt);
 }
@@ -0,0 +1,148 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { PluginRuntime } from "openclaw/plugin-sdk";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parseNextcloudTalkActorId } from "./actors.js";
+import {
+  checkNextcloudTalkLoopBreaker,
+  isNextcloudTalkBotAllowed,
+  forgetNextcloudTalkOwnMessage,
+  isNextcloudTalkOwnMessage,
+  isNextcloudTalkOwnReference,
+  isNextcloudTalkOwnShare,
+  recordNextcloudTalkOwnMessage,
+  recordNextcloudTalkOwnReference,
+  recordNextcloudTalkOwnShare,
+  resetNextcloudTalkLoopGuard,
+} from "./loop-guard.js";
+import { setNextcloudTalkRuntime } from "./runtime.js";
+
+const room = { accountId: "default", roomToken: "room123" };
+const bot = { sender: parseNextcloudTalkActorId("bots/helper") };
+
+describe("nextcloud-talk loop guard", () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = mkdtempSync(join(tmpdir(), "nc-talk-loop-"));
+    const runtime: Pick<PluginRuntime, "state"> = {
+      state: { resolveStateDir: () => stateDir },
+    };
+    setNextcloudTalkRuntime(runtime as PluginRuntime);
+  });
+
+  afterEach(async () => {
+    await resetNextcloudTalkLoopGuard();
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("recognizes our own outbound message ids per room", () => {
+    recordNextcloudTalkOwnMessage({ ...room, messageId: "42" });
+    expect(isNextcloudTalkOwnMessage({ ...room, messageId: "42" })).toBe(true);
+    expect(isNextcloudTalkOwnMessage({ ...room, messageId: "43" })).toBe(false);
+    expect(
+      isNextcloudTalkOwnMessage({ accountId: "default", roomToken: "other", messageId: "42" }),
+    ).toBe(false);
+  });
+
+  it("keeps our own message ids across a restart until they are deleted", async () => {
+    recordNextcloudTalkOwnMessage({ ...room, messageId: "42" });
+    recordNextcloudTalkOwnMessage({ ...room, messageId: "43" });
+    forgetNextcloudTalkOwnMessage({ ...room, messageId: "43" });
+    await resetNextcloudTalkLoopGuard();
+
+    expect(isNextcloudTalkOwnMessage({ ...room, messageId: "42" })).toBe(true);
+    expect(isNextcloudTalkOwnMessage({ ...room, messageId: "43" })).toBe(false);
+  });
+
+  it("recognizes reference ids of our own sends per account", () => {
+    recordNextcloudTalkOwnReference("default", "abc");
+    expect(isNextcloudTalkOwnReference("default", "abc")).toBe(true);
+    expect(isNextcloudTalkOwnReference("other", "abc")).toBe(false);
+  });
+
+  it("recognizes file shares this process uploaded per room", () => {
+    recordNextcloudTalkOwnShare({ ...room, fileName: "lq3k9-report.pdf" });
+    expect(isNextcloudTalkOwnShare({ ...room, fileName: "lq3k9-report.pdf" })).toBe(true);
+    expect(isNextcloudTalkOwnShare({ ...room, fileName: "report.pdf" })).toBe(false);
+  });
+
+  it("only answers allowlisted bots", () => {
+    const helper = parseNextcloudTalkActorId("bots/Helper");
+    expect(isNextcloudTalkBotAllowed(undefined, helper)).toBe(false);
+    expect(isNextcloudTalkBotAllowed(["other"], helper)).toBe(false);
+    expect(isNextcloudTalkBotAllowed(["helper"], helper)).toBe(true);
+    expect(isNextcloudTalkBotAllowed(["bots/helper"], helper)).toBe(true);
+    expect(isNextcloudTalkBotAllowed(["*"], helper)).toBe(true);
+  });
+
+  it("opens the breaker after consecutive rapid turns and closes after the cooldown", () => {
+    const config = { maxRapidTurns: 3, rapidReplySeconds: 5, cooldownSeconds: 60 };
+    let now = 1_000_000;
+    const turn = () => {
+      const result = checkNextcloudTalkLoopBreaker({ ...room, ...bot, config, now });
+      recordNextcloudTalkOwnMessage({ ...room, messageId: String(now), at: now + 1000 });
+      now += 2000;
+      return result;
+    };
+
+    expect(turn()).toEqual({ allowed: true, tripped: false });
+    expect(turn()).toEqual({ allowed: true, tripped: false });
+    expect(turn()).toEqual({ allowed: true, tripped: false });
+    expect(turn()).toEqual({ allowed: false, tripped: true });
+    expect(checkNextcloudTalkLoopBreaker({ ...room, ...bot, config, now })).toEqual({
+      allowed: false,
+      tripped: false,
+    });
+
+    now += 60_000;
+    expect(checkNextcloudTalkLoopBreaker({ ...room, ...bot, config, now })).toEqual({
+      allowed: true,
+      tripped: false,
+    });
+  });
+
+  it("resets the count when replies are not rapid", () => {
+    const config = { maxRapidTurns: 2, rapidReplySeconds: 5 };
+    recordNextcloudTalkOwnMessage({ ...room, messageId: "1", at: 0 });
+    expect(checkNextcloudTalkLoopBreaker({ ...room, ...bot, config, now: 1000 }).allowed).toBe(
+      true,
+    );
+    expect(checkNextcloudTalkLoopBreaker({ ...room, ...bot, config, now: 60_000 }).allowed).toBe(
+      true,
+    );
+    recordNextcloudTalkOwnMessage({ ...room, messageId: "2", at: 60_000 });
+    expect(checkNextcloudTalkLoopBreaker({ ...room, ...bot, config, now: 61_000 }).allowed).toBe(
+      true,
+    );
+  });
+
+  it("never counts people chatting quickly with the bot", () => {
+    const config = { maxRapidTurns: 2, rapidReplySeconds: 5 };
+    const human = { sender: parseNextcloudTalkActorId("users/alice") };
+    for (let now = 0; now < 20_000; now += 2000) {
+      expect(checkNextcloudTalkLoopBreaker({ ...room, ...human, config, now })).toEqual({
+        allowed: true,
+        tripped: false,
+      });
+      recordNextcloudTalkOwnMessage({ ...room, messageId: String(now), at: now + 1000 });
+    }
+  });
+
+  it("only counts bot messages that alternate with our replies", () => {
+    const config = { maxRapidTurns: 2, rapidReplySeconds: 5 };
+    recordNextcloudTalkOwnMessage({ ...room, messageId: "1", at: 0 });
+    expect(checkNextcloudTalkLoopBreaker({ ...room, ...bot, config, now: 1000 }).allowed).toBe(
+      true,
+    );
+    // A second bot message without a reply in between is not a rapid turn.
+    expect(checkNextcloudTalkLoopBreaker({ ...room, ...bot, config, now: 2000 }).allowed).toBe(
+      true,
+    );
+    recordNextcloudTalkOwnMessage({ ...room, messageId: "2", at: 2500 });
+    expect(checkNextcloudTalkLoopBreaker({ ...room, ...bot, config, now: 3000 }).allowed).toBe(
+      true,
+    );
+  });
+});
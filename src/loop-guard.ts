@@ -0,0 +1,215 @@
+/**
+ * Bot loop protection. Tracks the message ids each account sent so they are never
+ * answered, and runs a per-room circuit breaker that opens when messages from bots
+ * keep arriving right after our replies (two bots answering each other). The sent
+ * ids are persisted; deletes use them to only remove the account's own messages.
+ */
+
+import { type NextcloudTalkActor, parseNextcloudTalkActorId } from "./actors.js";
+import { getNextcloudTalkRuntime } from "./runtime.js";
+import { resolveNextcloudTalkStatePath } from "./state-file.js";
+import { createNextcloudTalkStateMap, type NextcloudTalkStateMap } from "./state-map.js";
+import type { NextcloudTalkLoopProtectionConfig } from "./types.js";
+
+const OWN_MESSAGES_MAX = 10_000;
+/** In-memory bound for reference ids and file shares of recent sends. */
+const OWN_SENDS_MAX = 2000;
+const DEFAULT_MAX_RAPID_TURNS = 6;
+const DEFAULT_RAPID_REPLY_SECONDS = 5;
+const DEFAULT_COOLDOWN_SECONDS = 300;
+
+type RoomLoopState = {
+  lastOutboundAt?: number;
+  /** When the last bot message counted as a rapid turn arrived. */
+  lastRapidAt?: number;
+  rapidTurns: number;
+  openUntil?: number;
+};
+
+/** Messages each account posted (`room:id` to send time), by account id. */
+const ownMessages = new Map<string, NextcloudTalkStateMap<number>>();
+const ownReferences = new Set<string>();
+const ownShares = new Set<string>();
+const roomStates = new Map<string, RoomLoopState>();
+
+function roomKey(accountId: string, roomToken: string): string {
+  return `${accountId}:${roomToken}`;
+}
+
+function resolveRoomState(accountId: string, roomToken: string): RoomLoopState {
+  const key = roomKey(accountId, roomToken);
+  let state = roomStates.get(key);
+  if (!state) {
+    state = { rapidTurns: 0 };
+    roomStates.set(key, state);
+  }
+  return state;
+}
+
+function resolveOwnMessages(accountId: string): NextcloudTalkStateMap<number> {
+  let messages = ownMessages.get(accountId);
+  if (!messages) {
+    messages = createNextcloudTalkStateMap({
+      filePath: resolveNextcloudTalkStatePath(accountId, "sent-messages.json"),
+      maxEntries: OWN_MESSAGES_MAX,
+      onError: (err) => {
+        getNextcloudTalkRuntime()
+          .logging.getChildLogger({ channel: "nextcloud-talk", accountId })
+          .warn(
+            `[nextcloud-talk:${accountId}] failed saving sent message ids: ${err instanceof Error ? err.message : String(err)}`,
+          );
+      },
+    });
+    ownMessages.set(accountId, messages);
+  }
+  return messages;
+}
+
+/** Remember a message we sent; also marks the room's last outbound time. */
+export function recordNextcloudTalkOwnMessage(params: {
+  accountId: string;
+  roomToken: string;
+  messageId: string;
+  at?: number;
+}): void {
+  const at = params.at ?? Date.now();
+  resolveOwnMessages(params.accountId).set(`${params.roomToken}:${params.messageId}`, at);
+  resolveRoomState(params.accountId, params.roomToken).lastOutboundAt = at;
+}
+
+export function isNextcloudTalkOwnMessage(params: {
+  accountId: string;
+  roomToken: string;
+  messageId: string;
+}): boolean {
+  return resolveOwnMessages(params.accountId).has(`${params.roomToken}:${params.messageId}`);
+}
+
+/** Forget a message we sent once it has been deleted. */
+export function forgetNextcloudTalkOwnMessage(params: {
+  accountId: string;
+  roomToken: string;
+  messageId: string;
+}): void {
+  resolveOwnMessages(params.accountId).delete(`${params.roomToken}:${params.messageId}`);
+}
+
+/** Write the account's pending sent-message records (e.g. on shutdown). */
+export async function flushNextcloudTalkOwnMessages(accountId: string): Promise<void> {
+  await ownMessages.get(accountId)?.flush();
+}
+
+/** Remember a reference id attached to one of our sends, before the send goes out. */
+export function recordNextcloudTalkOwnReference(accountId: string, referenceId: string): void {
+  const key = `${accountId}:${referenceId}`;
+  ownReferences.delete(key);
+  if (ownReferences.size >= OWN_SENDS_MAX) {
+    const oldest = ownReferences.values().next().value;
+    if (oldest !== undefined) ownReferences.delete(oldest);
+  }
+  ownReferences.add(key);
+}
+
+export function isNextcloudTalkOwnReference(accountId: string, referenceId: string): boolean {
+  return ownReferences.has(`${accountId}:${referenceId}`);
+}
+
+/**
+ * Remember a file this process uploaded and is sharing into a room. Shares are posted
+ * as the API user, so the file name (unique per upload) tells our share messages
+ * apart from that user's own messages.
+ */
+export function recordNextcloudTalkOwnShare(params: {
+  accountId: string;
+  roomToken: string;
+  fileName: string;
+}): void {
+  const key = `${roomKey(params.accountId, params.roomToken)}:${params.fileName}`;
+  ownShares.delete(key);
+  if (ownShares.size >= OWN_SENDS_MAX) {
+    const oldest = ownShares.values().next().value;
+    if (oldest !== undefined) ownShares.delete(oldest);
+  }
+  ownShares.add(key);
+}
+
+export function isNextcloudTalkOwnShare(params: {
+  accountId: string;
+  roomToken: string;
+  fileName: string;
+}): boolean {
+  return ownShares.has(`${roomKey(params.accountId, params.roomToken)}:${params.fileName}`);
+}
+
+/** Whether a bot actor is on a room's `allowBots` list (`*`, `bot:<id>`, `bots/<id>` or `<id>`). */
+export function isNextcloudTalkBotAllowed(
+  allowBots: string[] | undefined,
+  actor: NextcloudTalkActor,
+): boolean {
+  const botId = actor.id.toLowerCase();
+  return (allowBots ?? []).some((raw) => {
+    const entry = raw.trim().toLowerCase();
+    if (entry === "*") {
+      return true;
+    }
+    const parsed = parseNextcloudTalkActorId(entry);
+    return (parsed.type === "bot" || parsed.type === "user") && parsed.id === botId;
+  });
+}
+
+/**
+ * Count an inbound message against the room's circuit breaker. Only bot senders
+ * count: a bot message arriving within `rapidReplySeconds` of a reply we sent after
+ * its previous message is a rapid turn. `maxRapidTurns` in a row open the breaker for
+ * `cooldownSeconds`, during which bot messages in the room are ignored. People are
+ * never counted or blocked, however fast they chat.
+ */
+export function checkNextcloudTalkLoopBreaker(params: {
+  accountId: string;
+  roomToken: string;
+  sender: NextcloudTalkActor;
+  config?: NextcloudTalkLoopProtectionConfig;
+  now?: number;
+}): { allowed: boolean; tripped: boolean } {
+  const { config } = params;
+  if (config?.enabled === false || params.sender.type !== "bot") {
+    return { allowed: true, tripped: false };
+  }
+  const now = params.now ?? Date.now();
+  const state = resolveRoomState(params.accountId, params.roomToken);
+  if (state.openUntil !== undefined) {
+    if (now < state.openUntil) {
+      return { allowed: false, tripped: false };
+    }
+    state.openUntil = undefined;
+    state.rapidTurns = 0;
+  }
+
+  const rapidWindowMs = (config?.rapidReplySeconds ?? DEFAULT_RAPID_REPLY_SECONDS) * 1000;
+  const lastOutboundAt = state.lastOutboundAt;
+  // Rapid turns must alternate: we replied since the previous rapid bot message.
+  const rapid =
+    lastOutboundAt !== undefined &&
+    (state.lastRapidAt === undefined || lastOutboundAt >= state.lastRapidAt) &&
+    now - lastOutboundAt <= rapidWindowMs;
+  state.rapidTurns = rapid ? state.rapidTurns + 1 : 0;
+  state.lastRapidAt = rapid ? now : undefined;
+  if (state.rapidTurns >= (config?.maxRapidTurns ?? DEFAULT_MAX_RAPID_TURNS)) {
+    state.openUntil = now + (config?.cooldownSeconds ?? DEFAULT_COOLDOWN_SECONDS) * 1000;
+    state.rapidTurns = 0;
+    return { allowed: false, tripped: true };
+  }
+  return { allowed: true, tripped: false };
+}
+
+/**
+ * Write pending sent-message records, then forget all tracked messages and breaker
+ * state, as after a restart. Intended for tests.
+ */
+export async function resetNextcloudTalkLoopGuard(): Promise<void> {
+  await Promise.all([...ownMessages.values()].map((messages) => messages.flush()));
+  ownMessages.clear();
+  ownReferences.clear();
+  ownShares.clear();
+  roomStates.clear();
+}
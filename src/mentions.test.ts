@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatNextcloudTalkMentionsNote,
+  resolveNextcloudTalkMentionPatternText,
+  resolveNextcloudTalkMentions,
+  resolveNextcloudTalkSelfMentionIds,
+} from "./mentions.js";
+import { resolveRichMessageFields } from "./rich-content.js";
+import type { NextcloudTalkRichObject } from "./types.js";
+
+const mentionBot: NextcloudTalkRichObject = {
+  kind: "user",
+  key: "mention-user1",
+  id: "Claw-Bot",
+  name: "Renamed Assistant",
+};
+const mentionAlice: NextcloudTalkRichObject = {
+  kind: "user",
+  key: "mention-user2",
+  id: "alice",
+  name: "Alice",
+};
+const mentionAll: NextcloudTalkRichObject = {
+  kind: "call",
+  key: "mention-call1",
+  roomToken: "room123",
+  name: "Team room",
+};
+
+describe("nextcloud-talk mentions", () => {
+  const selfIds = resolveNextcloudTalkSelfMentionIds({
+    apiUser: "claw-bot",
+    mentionIds: [" Ops "],
+  });
+
+  it("matches mentioned ids against the bot's ids regardless of display name", () => {
+    expect(selfIds).toEqual(["claw-bot", "ops"]);
+    expect(
+      resolveNextcloudTalkMentions({
+        richObjects: [mentionAlice, mentionBot],
+        selfIds,
+        mentionAll: false,
+      }),
+    ).toEqual({ mentionedSelf: true, mentionedAll: false, mentionedIds: ["alice", "Claw-Bot"] });
+  });
+
+  it("counts @all only when the room allows it", () => {
+    expect(
+      resolveNextcloudTalkMentions({ richObjects: [mentionAll], selfIds, mentionAll: true })
+        .mentionedSelf,
+    ).toBe(true);
+    expect(
+      resolveNextcloudTalkMentions({ richObjects: [mentionAll], selfIds, mentionAll: false }),
+    ).toEqual({ mentionedSelf: false, mentionedAll: true, mentionedIds: [] });
+  });
+
+  it("leaves mention placeholders out of the text for pattern matching", () => {
+    const fields = resolveRichMessageFields("{mention-user1}, ask {mention-call1} about Team", {
+      "mention-user1": { type: "user", id: "alice", name: "Alice" },
+      "mention-call1": { type: "call", id: "abc123", name: "Team" },
+    });
+    expect(fields.text).toBe("Alice, ask Team about Team");
+    expect(resolveNextcloudTalkMentionPatternText(fields)).toBe(", ask  about Team");
+    expect(resolveNextcloudTalkMentionPatternText({ text: " Team standup " })).toBe("Team standup");
+  });
+
+  it("formats the mentioned ids for the agent", () => {
+    expect(
+      formatNextcloudTalkMentionsNote({
+        mentionedSelf: true,
+        mentionedAll: true,
+        mentionedIds: ["alice"],
+      }),
+    ).toBe("[Mentioned: alice, @all]");
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Mention detection from Talk's structured `mention-*` rich object parameters.
+ *
+ * The flattened message text only carries display names, which change and collide;
+ * the parameters carry the mentioned actor ids, so gating compares those with the
+ * ids the bot answers to.
+ */
+
+import type { NextcloudTalkInboundMessage, NextcloudTalkRichObject } from "./types.js";
+
+export type NextcloudTalkMentions = {
+  /** True when one of `selfIds` (or `@all`, when it counts) was mentioned. */
+  mentionedSelf: boolean;
+  /** True when the message mentions every participant (`@all`). */
+  mentionedAll: boolean;
+  /** Ids of mentioned users and guests, in message order, without duplicates. */
+  mentionedIds: string[];
+};
+
+function normalizeId(id: string): string {
+  return id.trim().toLowerCase();
+}
+
+/** Ids the bot answers to: the API user plus any configured mention ids. */
+export function resolveNextcloudTalkSelfMentionIds(params: {
+  apiUser?: string;
+  mentionIds?: string[];
+}): string[] {
+  return [params.apiUser, ...(params.mentionIds ?? [])]
+    .map((id) => (id ? normalizeId(id) : ""))
+    .filter(Boolean);
+}
+
+export function resolveNextcloudTalkMentions(params: {
+  richObjects?: NextcloudTalkRichObject[];
+  selfIds: string[];
+  /** Whether `@all` counts as mentioning the bot. */
+  mentionAll: boolean;
+}): NextcloudTalkMentions {
+  const selfIds = new Set(params.selfIds.map(normalizeId));
+  const mentionedIds: string[] = [];
+  let mentionedAll = false;
+  let mentionedSelf = false;
+  for (const object of params.richObjects ?? []) {
+    if (object.kind === "call") {
+      mentionedAll = true;
+      mentionedSelf ||= params.mentionAll;
+      continue;
+    }
+    if (object.kind !== "user" && object.kind !== "guest") {
+      continue;
+    }
+    if (!mentionedIds.includes(object.id)) {
+      mentionedIds.push(object.id);
+    }
+    mentionedSelf ||= selfIds.has(normalizeId(object.id));
+  }
+  return { mentionedSelf, mentionedAll, mentionedIds };
+}
+
+/** True for objects Talk inserts as mentions (users, guests, groups, teams, `@all`). */
+export function isNextcloudTalkMentionObject(object: NextcloudTalkRichObject): boolean {
+  return (
+    object.kind === "user" ||
+    object.kind === "guest" ||
+    object.kind === "group" ||
+    object.kind === "team" ||
+    object.kind === "call"
+  );
+}
+
+/**
+ * Message text with the mention placeholders left out, so text mention patterns do not
+ * fire on someone else's name. Words elsewhere in the text are kept as written.
+ */
+export function resolveNextcloudTalkMentionPatternText(
+  message: Pick<NextcloudTalkInboundMessage, "text" | "mentionFreeText">,
+): string {
+  return (message.mentionFreeText ?? message.text).trim();
+}
+
+/** Agent-facing line listing mentioned ids, or "" when there are none. */
+export function formatNextcloudTalkMentionsNote(mentions: NextcloudTalkMentions): string {
+  const entries = [...mentions.mentionedIds, ...(mentions.mentionedAll ? ["@all"] : [])];
+  return entries.length > 0 ? `[Mentioned: ${entries.join(", ")}]` : "";
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  forgetNextcloudTalkMessage,
+  lookupNextcloudTalkMessage,
+  rememberNextcloudTalkMessage,
+  resolveNextcloudTalkEditAction,
+} from "./message-edits.js";
+
+describe("nextcloud-talk message edits", () => {
+  describe("resolveNextcloudTalkEditAction", () => {
+    it("defaults to a correction note inside the window", () => {
+      expect(resolveNextcloudTalkEditAction({ originalReceivedAt: 1_000, now: 5_000 })).toBe(
+        "note",
+      );
+    });
+
+    it("re-runs inside the window when configured", () => {
+      expect(
+        resolveNextcloudTalkEditAction({
+          policy: "rerun",
+          windowSeconds: 30,
+          originalReceivedAt: 1_000,
+          now: 20_000,
+        }),
+      ).toBe("rerun");
+    });
+
+    it("downgrades late edits to a note", () => {
+      expect(
+        resolveNextcloudTalkEditAction({
+          policy: "rerun",
+          windowSeconds: 30,
+          originalReceivedAt: 1_000,
+          now: 60_000,
+        }),
+      ).toBe("note");
+    });
+
+    it("ignores edits when configured", () => {
+      expect(
+        resolveNextcloudTalkEditAction({ policy: "ignore", originalReceivedAt: 1_000, now: 1_000 }),
+      ).toBe("ignore");
+    });
+
+    it("only re-runs edits of messages the agent never saw", () => {
+      expect(resolveNextcloudTalkEditAction({ policy: "note" })).toBe("ignore");
+      expect(resolveNextcloudTalkEditAction({ policy: "rerun" })).toBe("rerun");
+    });
+  });
+
+  describe("tracked messages", () => {
+    it("remembers and forgets messages per account and room", () => {
+      const ref = { accountId: "default", roomToken: "room1", messageId: "42" };
+      rememberNextcloudTalkMessage({
+        ...ref,
+        message: { receivedAt: 1, sessionKey: "session", text: "helo" },
+      });
+      expect(lookupNextcloudTalkMessage(ref)?.text).toBe("helo");
+      expect(lookupNextcloudTalkMessage({ ...ref, accountId: "other" })).toBeUndefined();
+      forgetNextcloudTalkMessage(ref);
+      expect(lookupNextcloudTalkMessage(ref)).toBeUndefined();
+    });
+  });
+});
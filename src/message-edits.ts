@@ -0,0 +1,112 @@
+/**
+ * Edit/delete handling for inbound Nextcloud Talk messages.
+ *
+ * Talk delivers edits as `Update` and deletions as `Delete` webhooks that reuse the
+ * original message id. We keep a small per-account record of messages that reached
+ * the agent so edits can be matched against the original receive time and routed
+ * back into the same session.
+ */
+
+import type { NextcloudTalkEditPolicy } from "./types.js";
+
+export type NextcloudTalkTrackedMessage = {
+  /** When the original message was received (ms). */
+  receivedAt: number;
+  /** Session the original message was dispatched to. */
+  sessionKey: string;
+  /** Text the agent saw for the original message. */
+  text: string;
+};
+
+const DEFAULT_EDIT_POLICY: NextcloudTalkEditPolicy = "note";
+const DEFAULT_EDIT_WINDOW_SECONDS = 120;
+const TRACKED_MESSAGES_MAX = 500;
+
+const trackedMessages = new Map<string, NextcloudTalkTrackedMessage>();
+
+function resolveTrackedMessageKey(params: {
+  accountId: string;
+  roomToken: string;
+  messageId: string;
+}): string {
+  return `${params.accountId}:${params.roomToken}:${params.messageId}`;
+}
+
+export function rememberNextcloudTalkMessage(params: {
+  accountId: string;
+  roomToken: string;
+  messageId: string;
+  message: NextcloudTalkTrackedMessage;
+}): void {
+  const key = resolveTrackedMessageKey(params);
+  // Re-insert so edits of recent messages stay at the young end of the map.
+  trackedMessages.delete(key);
+  if (trackedMessages.size >= TRACKED_MESSAGES_MAX) {
+    const oldestKey = trackedMessages.keys().next().value;
+    if (oldestKey !== undefined) trackedMessages.delete(oldestKey);
+  }
+  trackedMessages.set(key, params.message);
+}
+
+export function lookupNextcloudTalkMessage(params: {
+  accountId: string;
+  roomToken: string;
+  messageId: string;
+}): NextcloudTalkTrackedMessage | undefined {
+  return trackedMessages.get(resolveTrackedMessageKey(params));
+}
+
+export function forgetNextcloudTalkMessage(params: {
+  accountId: string;
+  roomToken: string;
+  messageId: string;
+}): void {
+  trackedMessages.delete(resolveTrackedMessageKey(params));
+}
+
+/**
+ * Decide what to do with an edit. The configured policy only applies inside the
+ * edit window; later edits are downgraded to a correction note so the transcript
+ * stays accurate without re-running an old turn.
+ */
+export function resolveNextcloudTalkEditAction(params: {
+  policy?: NextcloudTalkEditPolicy;
+  windowSeconds?: number;
+  originalReceivedAt?: number;
+  now?: number;
+}): NextcloudTalkEditPolicy {
+  const policy = params.policy ?? DEFAULT_EDIT_POLICY;
+  if (policy === "ignore") {
+    return "ignore";
+  }
+  if (params.originalReceivedAt === undefined) {
+    // The original never reached the agent (e.g. it was mention-gated), so there
+    // is nothing to correct. Only a re-run can still make use of the edit.
+    return policy === "rerun" ? "rerun" : "ignore";
+  }
+  const windowMs = (params.windowSeconds ?? DEFAULT_EDIT_WINDOW_SECONDS) * 1000;
+  const elapsed = (params.now ?? Date.now()) - params.originalReceivedAt;
+  if (elapsed > windowMs) {
+    return "note";
+  }
+  return policy;
+}
+
+export function formatNextcloudTalkEditNote(params: {
+  senderName: string;
+  messageId: string;
+  previousText: string;
+  text: string;
+}): string {
+  const sender = params.senderName || "A user";
+  return `Nextcloud Talk: ${sender} edited message ${params.messageId}. Previous: "${params.previousText}" Now: "${params.text}"`;
+}
+
+export function formatNextcloudTalkDeleteNote(params: {
+  senderName: string;
+  messageId: string;
+  previousText: string;
+}): string {
+  const sender = params.senderName || "A user";
+  return `Nextcloud Talk: ${sender} deleted message ${params.messageId} ("${params.previousText}"). Disregard it.`;
+}
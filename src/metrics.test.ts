@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  observeNextcloudTalkTurnDuration,
+  recordNextcloudTalkCacheLookup,
+  recordNextcloudTalkDrop,
+  recordNextcloudTalkWebhook,
+  renderNextcloudTalkMetrics,
+  resetNextcloudTalkMetrics,
+} from "./metrics.js";
+
+describe("nextcloud-talk metrics", () => {
+  beforeEach(() => {
+    resetNextcloudTalkMetrics();
+  });
+
+  it("renders counters per account and label set", () => {
+    recordNextcloudTalkWebhook("default", 200);
+    recordNextcloudTalkWebhook("default", 200);
+    recordNextcloudTalkWebhook("default", 401);
+    recordNextcloudTalkDrop("default", "no_mention");
+    recordNextcloudTalkCacheLookup("default", "room_info", true);
+
+    const text = renderNextcloudTalkMetrics();
+    expect(text).toContain("# TYPE nextcloud_talk_webhooks_total counter");
+    expect(text).toContain('nextcloud_talk_webhooks_total{account="default",status="200"} 2');
+    expect(text).toContain('nextcloud_talk_webhooks_total{account="default",status="401"} 1');
+    expect(text).toContain(
+      'nextcloud_talk_messages_dropped_total{account="default",reason="no_mention"} 1',
+    );
+    expect(text).toContain(
+      'nextcloud_talk_cache_lookups_total{account="default",cache="room_info",result="hit"} 1',
+    );
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    observeNextcloudTalkTurnDuration("default", 800);
+    observeNextcloudTalkTurnDuration("default", 3_000);
+
+    const text = renderNextcloudTalkMetrics();
+    expect(text).toContain(
+      'nextcloud_talk_turn_duration_seconds_bucket{account="default",le="1"} 1',
+    );
+    expect(text).toContain(
+      'nextcloud_talk_turn_duration_seconds_bucket{account="default",le="5"} 2',
+    );
+    expect(text).toContain(
+      'nextcloud_talk_turn_duration_seconds_bucket{account="default",le="+Inf"} 2',
+    );
+    expect(text).toContain('nextcloud_talk_turn_duration_seconds_sum{account="default"} 3.8');
+    expect(text).toContain('nextcloud_talk_turn_duration_seconds_count{account="default"} 2');
+  });
+
+  it("limits output to the requested accounts", () => {
+    recordNextcloudTalkWebhook("alpha", 200);
+    recordNextcloudTalkWebhook("beta", 200);
+
+    const text = renderNextcloudTalkMetrics({ accountIds: ["alpha"] });
+    expect(text).toContain('account="alpha"');
+    expect(text).not.toContain('account="beta"');
+  });
+
+  it("counts webhooks that matched no account without an account label", () => {
+    recordNextcloudTalkWebhook("alpha", 200);
+    recordNextcloudTalkWebhook(undefined, 401);
+
+    const text = renderNextcloudTalkMetrics({ accountIds: ["alpha"] });
+    expect(text).toContain('nextcloud_talk_webhooks_total{status="401"} 1');
+    expect(text).not.toContain('account="alpha",status="401"');
+  });
+});
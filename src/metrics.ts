@@ -0,0 +1,206 @@
+/**
+ * In-process Prometheus metrics for Nextcloud Talk accounts.
+ *
+ * Counters and histograms live in module-level maps keyed by their label values
+ * (including `account`, except for webhooks that matched no account), and are
+ * rendered in the Prometheus text format by the webhook server's optional `/metrics`
+ * endpoint.
+ */
+
+type Labels = Record<string, string>;
+
+type Counter = {
+  name: string;
+  help: string;
+  values: Map<string, { labels: Labels; value: number }>;
+};
+
+type Histogram = {
+  name: string;
+  help: string;
+  buckets: number[];
+  values: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>;
+};
+
+const TURN_LATENCY_BUCKETS_SECONDS = [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+function createCounter(name: string, help: string): Counter {
+  return { name, help, values: new Map() };
+}
+
+function createHistogram(name: string, help: string, buckets: number[]): Histogram {
+  return { name, help, buckets, values: new Map() };
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).toSorted(([a], [b]) => a.localeCompare(b)));
+}
+
+function incrementCounter(counter: Counter, labels: Labels, by = 1): void {
+  const key = labelKey(labels);
+  const entry = counter.values.get(key);
+  if (entry) {
+    entry.value += by;
+  } else {
+    counter.values.set(key, { labels, value: by });
+  }
+}
+
+function observeHistogram(histogram: Histogram, labels: Labels, value: number): void {
+  const key = labelKey(labels);
+  let entry = histogram.values.get(key);
+  if (!entry) {
+    entry = { labels, counts: histogram.buckets.map(() => 0), sum: 0, count: 0 };
+    histogram.values.set(key, entry);
+  }
+  histogram.buckets.forEach((bound, index) => {
+    if (value <= bound) {
+      entry.counts[index] += 1;
+    }
+  });
+  entry.sum += value;
+  entry.count += 1;
+}
+
+const webhooksTotal = createCounter(
+  "nextcloud_talk_webhooks_total",
+  "Webhook requests received, by HTTP response status.",
+);
+const droppedTotal = createCounter(
+  "nextcloud_talk_messages_dropped_total",
+  "Inbound messages dropped before reaching the agent, by reason.",
+);
+const turnDuration = createHistogram(
+  "nextcloud_talk_turn_duration_seconds",
+  "Time from dispatching an inbound message to the agent until the reply finished.",
+  TURN_LATENCY_BUCKETS_SECONDS,
+);
+const sendsTotal = createCounter(
+  "nextcloud_talk_sends_total",
+  'Outbound bot messages, by HTTP status ("error" when no response was received).',
+);
+const typingFailuresTotal = createCounter(
+  "nextcloud_talk_typing_failures_total",
+  "Typing indicator signaling connection failures.",
+);
+const cacheLookupsTotal = createCounter(
+  "nextcloud_talk_cache_lookups_total",
+  "Room info and reply parent cache lookups, by result (hit or miss).",
+);
+
+const COUNTERS = [webhooksTotal, droppedTotal, sendsTotal, typingFailuresTotal, cacheLookupsTotal];
+const HISTOGRAMS = [turnDuration];
+
+export type NextcloudTalkDropReason =
+  | "room_not_allowlisted"
+  | "room_disabled"
+  | "sender_not_allowed"
+  | "guest_denied"
+  | "bot_sender"
+  | "own_message"
+  | "loop_breaker"
+  | "dm_not_allowed"
+  | "unauthorized_command"
+  | "no_mention"
+  | "edit_ignored"
+  | "queue_full"
+  | "duplicate";
+
+/** Count a webhook response; `accountId` is undefined when no account's secret matched. */
+export function recordNextcloudTalkWebhook(accountId: string | undefined, status: number): void {
+  incrementCounter(
+    webhooksTotal,
+    accountId === undefined
+      ? { status: String(status) }
+      : { account: accountId, status: String(status) },
+  );
+}
+
+export function recordNextcloudTalkDrop(accountId: string, reason: NextcloudTalkDropReason): void {
+  incrementCounter(droppedTotal, { account: accountId, reason });
+}
+
+export function observeNextcloudTalkTurnDuration(accountId: string, durationMs: number): void {
+  observeHistogram(turnDuration, { account: accountId }, durationMs / 1000);
+}
+
+export function recordNextcloudTalkSend(accountId: string, status: number | "error"): void {
+  incrementCounter(sendsTotal, { account: accountId, status: String(status) });
+}
+
+export function recordNextcloudTalkTypingFailure(accountId: string): void {
+  incrementCounter(typingFailuresTotal, { account: accountId });
+}
+
+export function recordNextcloudTalkCacheLookup(
+  accountId: string,
+  cache: "room_info" | "parent",
+  hit: boolean,
+): void {
+  incrementCounter(cacheLookupsTotal, {
+    account: accountId,
+    cache,
+    result: hit ? "hit" : "miss",
+  });
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const parts = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+  return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+/**
+ * Render metrics in the Prometheus text exposition format.
+ * When `accountIds` is given, only series for those accounts (and series without an
+ * account) are included.
+ */
+export function renderNextcloudTalkMetrics(params: { accountIds?: Iterable<string> } = {}): string {
+  const accounts = params.accountIds ? new Set(params.accountIds) : undefined;
+  const include = (labels: Labels) =>
+    !accounts || labels.account === undefined || accounts.has(labels.account);
+  const lines: string[] = [];
+
+  for (const counter of COUNTERS) {
+    lines.push(`# HELP ${counter.name} ${counter.help}`, `# TYPE ${counter.name} counter`);
+    for (const { labels, value } of counter.values.values()) {
+      if (include(labels)) {
+        lines.push(`${counter.name}${formatLabels(labels)} ${value}`);
+      }
+    }
+  }
+
+  for (const histogram of HISTOGRAMS) {
+    lines.push(`# HELP ${histogram.name} ${histogram.help}`, `# TYPE ${histogram.name} histogram`);
+    for (const { labels, counts, sum, count } of histogram.values.values()) {
+      if (!include(labels)) {
+        continue;
+      }
+      histogram.buckets.forEach((bound, index) => {
+        lines.push(
+          `${histogram.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`,
+        );
+      });
+      lines.push(`${histogram.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${histogram.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${histogram.name}_count${formatLabels(labels)} ${count}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** Clear all recorded values. Intended for tests. */
+export function resetNextcloudTalkMetrics(): void {
+  for (const counter of COUNTERS) {
+    counter.values.clear();
+  }
+  for (const histogram of HISTOGRAMS) {
+    histogram.values.clear();
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { parseRichContent, payloadToInboundMessage } from "./monitor.js";
+import { formatNextcloudTalkRichObjectsNote } from "./rich-content.js";
 import type { NextcloudTalkWebhookPayload } from "./types.js";
 
 /** Helper to build a minimal valid webhook payload. */
@@ -228,3 +229,87 @@ describe("payloadToInboundMessage — rich content", () => {
     expect(msg.isGroupChat).toBe(true);
   });
 });
+
+describe("payloadToInboundMessage — rich objects", () => {
+  it("renders polls, locations and deck cards and exposes them as structured fields", () => {
+    const payload = makePayload({
+      content: JSON.stringify({
+        message: "Vote {poll} near {geo} for {card}",
+        parameters: {
+          poll: { type: "talk-poll", id: "12", name: "Lunch?" },
+          geo: {
+            type: "geo-location",
+            id: "geo:52.52,13.405",
+            name: "Berlin",
+            latitude: "52.52",
+            longitude: "13.405",
+          },
+          card: {
+            type: "deck-card",
+            id: "7",
+            name: "Book table",
+            boardname: "Team",
+            board: "3",
+            stackname: "To do",
+            stack: "5",
+            link: "https://cloud.example.com/apps/deck/card/7",
+          },
+        },
+      }),
+    });
+    const msg = payloadToInboundMessage(payload);
+    expect(msg.text).toBe(
+      'Vote [Poll #12: "Lunch?"] near [Location: Berlin (52.52, 13.405)] for ' +
+        '[Deck card "Book table" in Team / To do (https://cloud.example.com/apps/deck/card/7)]',
+    );
+    expect(msg.richObjects).toEqual([
+      { kind: "poll", key: "poll", pollId: "12", question: "Lunch?" },
+      { kind: "geo-location", key: "geo", name: "Berlin", latitude: 52.52, longitude: 13.405 },
+      {
+        kind: "deck-card",
+        key: "card",
+        cardId: "7",
+        name: "Book table",
+        board: "Team",
+        boardId: "3",
+        stack: "To do",
+        stackId: "5",
+        link: "https://cloud.example.com/apps/deck/card/7",
+      },
+    ]);
+    expect(msg.fileParameters).toBeUndefined();
+  });
+
+  it("keeps mention names and renders call mentions as the room name", () => {
+    const payload = makePayload({
+      content: JSON.stringify({
+        message: "{mention-call1} and {mention-group1}, ask {mention-user1}",
+        parameters: {
+          "mention-call1": { type: "call", id: "room123", name: "TestRoom", "call-type": "group" },
+          "mention-group1": { type: "user-group", id: "admins", name: "Admins" },
+          "mention-user1": { type: "user", id: "bob", name: "Bob" },
+        },
+      }),
+    });
+    const msg = payloadToInboundMessage(payload);
+    expect(msg.text).toBe("TestRoom and Admins, ask Bob");
+    expect(msg.richObjects?.map((object) => object.kind)).toEqual(["call", "group", "user"]);
+  });
+
+  it("lists shared objects for the agent but leaves mentions to the mention note", () => {
+    const payload = makePayload({
+      content: JSON.stringify({
+        message: "{mention-user1}: {poll}",
+        parameters: {
+          "mention-user1": { type: "user", id: "bob", name: "Bob" },
+          poll: { type: "talk-poll", id: "12", name: "Lunch?" },
+        },
+      }),
+    });
+    const msg = payloadToInboundMessage(payload);
+    expect(formatNextcloudTalkRichObjectsNote(msg.richObjects)).toBe(
+      '[Shared objects: [{"kind":"poll","pollId":"12","question":"Lunch?"}]]',
+    );
+    expect(formatNextcloudTalkRichObjectsNote(undefined)).toBe("");
+  });
+});
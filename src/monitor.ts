@@ -1,22 +1,75 @@
-import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
 import {
+  type OpenClawConfig,
   type RuntimeEnv,
   isRequestBodyLimitError,
   readRequestBodyWithLimit,
   requestBodyErrorToText,
 } from "openclaw/plugin-sdk";
-import { resolveNextcloudTalkAccount } from "./accounts.js";
-import { handleNextcloudTalkInbound } from "./inbound.js";
+import {
+  listEnabledNextcloudTalkAccounts,
+  type ResolvedNextcloudTalkAccount,
+  resolveNextcloudTalkAccount,
+  resolveNextcloudTalkApiCredentials,
+} from "./accounts.js";
+import { catchUpNextcloudTalkRooms } from "./catch-up.js";
+import {
+  createNextcloudTalkCursorCommitter,
+  createNextcloudTalkCursorStore,
+} from "./cursor-store.js";
+import {
+  recordNextcloudTalkInboundReceived,
+  recordNextcloudTalkStartResult,
+  registerNextcloudTalkDiagnostics,
+  resolveNextcloudTalkReadiness,
+} from "./diagnostics.js";
+import {
+  handleNextcloudTalkInbound,
+  holdNextcloudTalkTyping,
+  stopNextcloudTalkTyping,
+} from "./inbound.js";
+import { createNextcloudTalkInboundDebouncer } from "./inbound-debounce.js";
+import {
+  createNextcloudTalkInboundScheduler,
+  resolveNextcloudTalkMessageIds,
+} from "./inbound-queue.js";
+import { flushNextcloudTalkOwnMessages } from "./loop-guard.js";
+import {
+  recordNextcloudTalkDrop,
+  recordNextcloudTalkWebhook,
+  renderNextcloudTalkMetrics,
+} from "./metrics.js";
+import {
+  saveNextcloudTalkPendingMessages,
+  takeNextcloudTalkPendingMessages,
+} from "./pending-store.js";
+import { startNextcloudTalkPolling } from "./poller.js";
+import { createNextcloudTalkReplayGuard } from "./replay-guard.js";
+import { parseRichContent, resolveRichMessageFields } from "./rich-content.js";
 import { getNextcloudTalkRuntime } from "./runtime.js";
-import { extractNextcloudTalkHeaders, verifyNextcloudTalkSignature } from "./signature.js";
+import {
+  extractNextcloudTalkHeaders,
+  isNextcloudTalkBackendAllowed,
+  verifyNextcloudTalkBearerToken,
+  verifyNextcloudTalkSignature,
+} from "./signature.js";
+import { resolveNextcloudTalkStatePath } from "./state-file.js";
 import type {
   CoreConfig,
+  NextcloudTalkInboundEvent,
   NextcloudTalkInboundMessage,
-  NextcloudTalkRichContent,
-  NextcloudTalkRichObjectParameter,
   NextcloudTalkWebhookPayload,
+  NextcloudTalkWebhookRoute,
   NextcloudTalkWebhookServerOptions,
+  NextcloudTalkWebhookTlsConfig,
 } from "./types.js";
+import {
+  createNextcloudTalkListenerServer,
+  listenNextcloudTalkWebhookServer,
+  type NextcloudTalkListenTarget,
+  type NextcloudTalkListenerServer,
+  resolveNextcloudTalkListenKey,
+} from "./webhook-listener.js";
 
 const DEFAULT_WEBHOOK_PORT = 8788;
 const DEFAULT_WEBHOOK_HOST = "0.0.0.0";
@@ -24,6 +77,12 @@ const DEFAULT_WEBHOOK_PATH = "/nextcloud-talk-webhook";
 const DEFAULT_WEBHOOK_MAX_BODY_BYTES = 1024 * 1024;
 const DEFAULT_WEBHOOK_BODY_TIMEOUT_MS = 30_000;
 const HEALTH_PATH = "/healthz";
+const METRICS_PATH = "/metrics";
+const READY_PATH = "/readyz";
+const DEFAULT_SHUTDOWN_DRAIN_SECONDS = 30;
+const DRAIN_RETRY_AFTER_SECONDS = 30;
+
+export { parseRichContent };
 
 function formatError(err: unknown): string {
   if (err instanceof Error) {
@@ -53,48 +112,26 @@ function parseWebhookPayload(body: string): NextcloudTalkWebhookPayload | null {
 }
 
 /**
- * Parse the JSON-encoded rich content from object.content.
- * Returns null if parsing fails or the content is not valid rich content.
+ * Map the Activity Streams type of a webhook onto an inbound event.
+ * Returns null for activity types the channel does not handle (e.g. reactions).
  */
-export function parseRichContent(content: string): NextcloudTalkRichContent | null {
-  try {
-    const parsed = JSON.parse(content);
-    if (typeof parsed !== "object" || parsed === null || typeof parsed.message !== "string") {
+function resolveWebhookEvent(type: string): NextcloudTalkInboundEvent | null {
+  switch (type) {
+    case "Create":
+    case "Activity":
+      return "create";
+    case "Update":
+      return "edit";
+    case "Delete":
+      return "delete";
+    default:
       return null;
-    }
-    return parsed as NextcloudTalkRichContent;
-  } catch {
-    return null;
   }
 }
 
-/**
- * Resolve rich content message text by replacing parameter placeholders
- * (e.g. `{file}`) with the parameter's name.
- */
-function resolveRichMessageText(
-  message: string,
-  parameters: Record<string, NextcloudTalkRichObjectParameter> | undefined,
-): string {
-  if (!parameters) return message;
-  return message.replace(/\{([\w-]+)\}/g, (match, key: string) => {
-    const param = parameters[key];
-    return param?.name ?? match;
-  });
-}
-
-/**
- * Extract file-type parameters from rich content.
- */
-function extractFileParameters(
-  parameters: Record<string, NextcloudTalkRichObjectParameter> | undefined,
-): NextcloudTalkRichObjectParameter[] {
-  if (!parameters) return [];
-  return Object.values(parameters).filter((p) => p.type === "file");
-}
-
 export function payloadToInboundMessage(
   payload: NextcloudTalkWebhookPayload,
+  event: NextcloudTalkInboundEvent = "create",
 ): NextcloudTalkInboundMessage {
   // Payload doesn't indicate DM vs room; mark as group and let inbound handler refine.
   const isGroupChat = true;
@@ -102,30 +139,25 @@ export function payloadToInboundMessage(
   const rawContent = payload.object.content || "";
   const richContent = parseRichContent(rawContent);
 
-  let text: string;
-  let fileParameters: NextcloudTalkRichObjectParameter[] = [];
-
-  if (richContent) {
-    // Successfully parsed rich content — resolve placeholders to filenames
-    text = resolveRichMessageText(richContent.message, richContent.parameters);
-    fileParameters = extractFileParameters(richContent.parameters);
-  } else {
-    // Fallback: use raw content or name (backward compatible)
-    text = rawContent || payload.object.name || "";
-  }
+  // Rich content resolves placeholders to rendered objects; otherwise fall back to
+  // the raw content or name (backward compatible).
+  const content = richContent
+    ? resolveRichMessageFields(richContent.message, richContent.parameters)
+    : { text: rawContent || payload.object.name || "" };
 
   return {
+    ...(event !== "create" ? { event } : {}),
     messageId: String(payload.object.id),
     roomToken: payload.target.id,
     roomName: payload.target.name,
     senderId: payload.actor.id,
     senderName: payload.actor.name ?? "",
-    text,
+    ...content,
     mediaType: payload.object.mediaType || "text/plain",
     timestamp: Date.now(),
     isGroupChat,
-    fileParameters: fileParameters.length > 0 ? fileParameters : undefined,
     ...(payload.object.threadId ? { threadId: payload.object.threadId } : {}),
+    ...(payload.object.referenceId ? { referenceId: payload.object.referenceId } : {}),
   };
 }
 
@@ -139,34 +171,105 @@ export function readNextcloudTalkWebhookBody(
   });
 }
 
-export function createNextcloudTalkWebhookServer(opts: NextcloudTalkWebhookServerOptions): {
-  server: Server;
-  start: () => Promise<void>;
-  stop: () => void;
-} {
-  const { port, host, path, secret, onMessage, onError, abortSignal } = opts;
-  const maxBodyBytes =
-    typeof opts.maxBodyBytes === "number" &&
-    Number.isFinite(opts.maxBodyBytes) &&
-    opts.maxBodyBytes > 0
-      ? Math.floor(opts.maxBodyBytes)
-      : DEFAULT_WEBHOOK_MAX_BODY_BYTES;
-
-  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+function resolveMaxBodyBytes(value: number | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? Math.floor(value)
+    : DEFAULT_WEBHOOK_MAX_BODY_BYTES;
+}
+
+/**
+ * Build the request handler shared by dedicated and shared listeners.
+ *
+ * Routes are matched by path first. When several accounts share a path, the
+ * request goes to the first one whose secret verifies the signature and whose
+ * backend list accepts the X-Nextcloud-Talk-Backend header. The body is read with
+ * the largest `maxBodyBytes` of the routes on the path.
+ */
+function createNextcloudTalkWebhookHandler(params: {
+  getRoutes: () => Iterable<NextcloudTalkWebhookRoute>;
+}): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const { getRoutes } = params;
+
+  return async (req, res) => {
     if (req.url === HEALTH_PATH) {
       res.writeHead(200, { "Content-Type": "text/plain" });
       res.end("ok");
       return;
     }
 
-    if (req.url !== path || req.method !== "POST") {
+    if (req.url === READY_PATH) {
+      const readiness = resolveNextcloudTalkReadiness(
+        listEnabledNextcloudTalkAccounts(
+          getNextcloudTalkRuntime().config.loadConfig() as CoreConfig,
+        ),
+      );
+      res.writeHead(readiness.status === "ok" ? 200 : 503, {
+        "Content-Type": "application/json",
+      });
+      res.end(JSON.stringify(readiness));
+      return;
+    }
+
+    // /metrics only shows the accounts whose bearer token the request carries.
+    if (req.url === METRICS_PATH && req.method === "GET") {
+      const routes = [...getRoutes()].filter((route) => route.metricsToken);
+      const exposed = routes.filter((route) =>
+        verifyNextcloudTalkBearerToken({
+          authorization: req.headers.authorization,
+          token: route.metricsToken ?? "",
+        }),
+      );
+      if (exposed.length > 0) {
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+        res.end(
+          renderNextcloudTalkMetrics({ accountIds: exposed.map((route) => route.accountId) }),
+        );
+        return;
+      }
+      if (routes.length > 0) {
+        res.writeHead(401, { "Content-Type": "application/json", "WWW-Authenticate": "Bearer" });
+        res.end(JSON.stringify({ error: "Unauthorized" }));
+        return;
+      }
+    }
+
+    const candidates = [...getRoutes()].filter(
+      (route) => !route.statusOnly && route.path === req.url,
+    );
+    if (candidates.length === 0 || req.method !== "POST") {
       res.writeHead(404);
       res.end();
       return;
     }
 
+    // Until a route is picked, errors go to every candidate on this path. Outcomes
+    // count against the candidates whose secret matched; requests that match no
+    // secret (or fail before the check) are counted without an account.
+    let route: NextcloudTalkWebhookRoute | undefined;
+    let targets: NextcloudTalkWebhookRoute[] = [];
+    const reportError = (error: Error) => {
+      for (const target of route ? [route] : candidates) {
+        target.onError?.(error);
+      }
+    };
+    const recordOutcome = (status: number) => {
+      const attributed = route ? [route] : targets;
+      if (attributed.length === 0) {
+        recordNextcloudTalkWebhook(undefined, status);
+      }
+      for (const target of attributed) {
+        recordNextcloudTalkWebhook(target.accountId, status);
+      }
+    };
+
     try {
-      const body = await readNextcloudTalkWebhookBody(req, maxBodyBytes);
+      const maxBodyBytes = Math.max(
+        ...candidates.map((candidate) => resolveMaxBodyBytes(candidate.maxBodyBytes)),
+      );
+      const readBody =
+        candidates.find((candidate) => candidate.readBody)?.readBody ??
+        readNextcloudTalkWebhookBody;
+      const body = await readBody(req, maxBodyBytes);
 
       const headers = extractNextcloudTalkHeaders(
         req.headers as Record<string, string | string[] | undefined>,
@@ -174,50 +277,118 @@ export function createNextcloudTalkWebhookServer(opts: NextcloudTalkWebhookServe
       if (!headers) {
         res.writeHead(400, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ error: "Missing signature headers" }));
+        recordOutcome(400);
         return;
       }
 
-      const isValid = verifyNextcloudTalkSignature({
-        signature: headers.signature,
-        random: headers.random,
-        body,
-        secret,
-      });
+      const verified = candidates.filter((candidate) =>
+        verifyNextcloudTalkSignature({
+          signature: headers.signature,
+          random: headers.random,
+          body,
+          secret: candidate.secret,
+        }),
+      );
 
-      if (!isValid) {
+      if (verified.length === 0) {
         res.writeHead(401, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ error: "Invalid signature" }));
+        recordOutcome(401);
         return;
       }
+      targets = verified;
+
+      route = verified.find(
+        (candidate) => !candidate.isBackendAllowed || candidate.isBackendAllowed(headers.backend),
+      );
+      if (!route) {
+        res.writeHead(403, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Backend not allowed" }));
+        recordOutcome(403);
+        for (const candidate of verified) {
+          candidate.onRejected?.({
+            status: 403,
+            reason: `backend ${headers.backend} not allowed`,
+          });
+        }
+        return;
+      }
+      if (route.isDraining?.()) {
+        res.writeHead(503, {
+          "Content-Type": "application/json",
+          "Retry-After": String(DRAIN_RETRY_AFTER_SECONDS),
+        });
+        res.end(JSON.stringify({ error: "Shutting down" }));
+        recordOutcome(503);
+        return;
+      }
+      const { replayGuard, onMessage, onRejected } = route;
 
       const payload = parseWebhookPayload(body);
       if (!payload) {
         res.writeHead(400, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ error: "Invalid payload format" }));
+        recordOutcome(400);
         return;
       }
 
-      if (payload.type !== "Create" && payload.type !== "Activity") {
+      const reject = (status: number, error: string, reason: string) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error }));
+        recordOutcome(status);
+        onRejected?.({ status, reason, roomToken: payload.target.id });
+      };
+
+      if (
+        replayGuard &&
+        !replayGuard.acceptNonce({ roomToken: payload.target.id, random: headers.random })
+      ) {
+        reject(409, "Replayed request", "reused signature random");
+        return;
+      }
+
+      const event = resolveWebhookEvent(payload.type);
+      if (!event) {
         res.writeHead(200);
         res.end();
+        recordOutcome(200);
         return;
       }
 
-      const message = payloadToInboundMessage(payload);
+      const message = payloadToInboundMessage(payload, event);
+
+      if (
+        replayGuard &&
+        !replayGuard.acceptMessage({
+          roomToken: message.roomToken,
+          messageId: message.messageId,
+          event,
+        })
+      ) {
+        // A redelivery of a message we already took: acknowledge it so Nextcloud stops
+        // retrying, but do not process it again.
+        res.writeHead(200);
+        res.end();
+        recordOutcome(200);
+        recordNextcloudTalkDrop(route.accountId, "duplicate");
+        return;
+      }
 
       res.writeHead(200);
       res.end();
+      recordOutcome(200);
 
       try {
         await onMessage(message);
       } catch (err) {
-        onError?.(err instanceof Error ? err : new Error(formatError(err)));
+        reportError(err instanceof Error ? err : new Error(formatError(err)));
       }
     } catch (err) {
       if (isRequestBodyLimitError(err, "PAYLOAD_TOO_LARGE")) {
         if (!res.headersSent) {
           res.writeHead(413, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ error: "Payload too large" }));
+          recordOutcome(413);
         }
         return;
       }
@@ -225,25 +396,39 @@ export function createNextcloudTalkWebhookServer(opts: NextcloudTalkWebhookServe
         if (!res.headersSent) {
           res.writeHead(408, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ error: requestBodyErrorToText("REQUEST_BODY_TIMEOUT") }));
+          recordOutcome(408);
         }
         return;
       }
-      const error = err instanceof Error ? err : new Error(formatError(err));
-      onError?.(error);
+      reportError(err instanceof Error ? err : new Error(formatError(err)));
       if (!res.headersSent) {
         res.writeHead(500, { "Content-Type": "application/json" });
         res.end(JSON.stringify({ error: "Internal server error" }));
+        recordOutcome(500);
       }
     }
+  };
+}
+
+export function createNextcloudTalkWebhookServer(opts: NextcloudTalkWebhookServerOptions): {
+  server: NextcloudTalkListenerServer;
+  start: () => Promise<void>;
+  stop: () => void;
+} {
+  const { port, host, socketPath, abortSignal } = opts;
+  const route: NextcloudTalkWebhookRoute = { accountId: "", ...opts };
+
+  const { server, dispose } = createNextcloudTalkListenerServer({
+    handler: createNextcloudTalkWebhookHandler({ getRoutes: () => [route] }),
+    tls: opts.tls,
+    onTlsReloadError: (error) => route.onError?.(error),
   });
 
-  const start = (): Promise<void> => {
-    return new Promise((resolve) => {
-      server.listen(port, host, () => resolve());
-    });
-  };
+  const start = (): Promise<void> =>
+    listenNextcloudTalkWebhookServer(server, socketPath ? { socketPath } : { port, host });
 
   const stop = () => {
+    dispose();
     server.close();
   };
 
@@ -254,18 +439,107 @@ export function createNextcloudTalkWebhookServer(opts: NextcloudTalkWebhookServe
   return { server, start, stop };
 }
 
+type SharedWebhookListener = {
+  server: NextcloudTalkListenerServer;
+  dispose: () => void;
+  /** TLS settings the listener was created with, to refuse conflicting accounts. */
+  tlsKey: string;
+  routes: Map<string, NextcloudTalkWebhookRoute>;
+  ready: Promise<void>;
+};
+
+/** Listeners shared by every account that resolves to the same host and port (or socket). */
+const sharedListeners = new Map<string, SharedWebhookListener>();
+
+/**
+ * Attach an account's webhook route to the shared listener for its target,
+ * starting the listener on first use. The listener closes when its last route
+ * is removed.
+ */
+export async function registerNextcloudTalkWebhookRoute(params: {
+  target: NextcloudTalkListenTarget;
+  tls?: NextcloudTalkWebhookTlsConfig;
+  route: NextcloudTalkWebhookRoute;
+}): Promise<{ unregister: () => void }> {
+  const { target, route } = params;
+  const key = resolveNextcloudTalkListenKey(target);
+  const tlsKey = JSON.stringify(params.tls ?? null);
+
+  let listener = sharedListeners.get(key);
+  if (!listener) {
+    const routes = new Map<string, NextcloudTalkWebhookRoute>();
+    const { server, dispose } = createNextcloudTalkListenerServer({
+      handler: createNextcloudTalkWebhookHandler({ getRoutes: () => routes.values() }),
+      tls: params.tls,
+      onTlsReloadError: (error) => {
+        for (const candidate of routes.values()) {
+          candidate.onError?.(error);
+        }
+      },
+    });
+    const created: SharedWebhookListener = {
+      server,
+      dispose,
+      tlsKey,
+      routes,
+      ready: listenNextcloudTalkWebhookServer(server, target),
+    };
+    created.ready.catch(() => {
+      dispose();
+      if (sharedListeners.get(key) === created) sharedListeners.delete(key);
+    });
+    sharedListeners.set(key, created);
+    listener = created;
+  }
+
+  if (listener.tlsKey !== tlsKey) {
+    throw new Error(
+      `Nextcloud Talk account "${route.accountId}" uses different TLS settings than the listener on ${key}`,
+    );
+  }
+  if (listener.routes.has(route.accountId)) {
+    throw new Error(`Nextcloud Talk account "${route.accountId}" is already registered on ${key}`);
+  }
+  listener.routes.set(route.accountId, route);
+
+  const current = listener;
+  const unregister = () => {
+    if (current.routes.get(route.accountId) !== route) {
+      return;
+    }
+    current.routes.delete(route.accountId);
+    if (current.routes.size === 0) {
+      current.dispose();
+      current.server.close();
+      if (sharedListeners.get(key) === current) sharedListeners.delete(key);
+    }
+  };
+
+  try {
+    await current.ready;
+  } catch (err) {
+    unregister();
+    throw err;
+  }
+  return { unregister };
+}
+
 export type NextcloudTalkMonitorOptions = {
   accountId?: string;
   config?: CoreConfig;
   runtime?: RuntimeEnv;
   abortSignal?: AbortSignal;
   onMessage?: (message: NextcloudTalkInboundMessage) => void | Promise<void>;
-  statusSink?: (patch: { lastInboundAt?: number; lastOutboundAt?: number }) => void;
+  statusSink?: (patch: {
+    lastInboundAt?: number;
+    lastOutboundAt?: number;
+    lastError?: string | null;
+  }) => void;
 };
 
 export async function monitorNextcloudTalkProvider(
   opts: NextcloudTalkMonitorOptions,
-): Promise<{ stop: () => void }> {
+): Promise<{ stop: () => Promise<void> }> {
   const core = getNextcloudTalkRuntime();
   const cfg = opts.config ?? (core.config.loadConfig() as CoreConfig);
   const account = resolveNextcloudTalkAccount({
@@ -280,6 +554,25 @@ export async function monitorNextcloudTalkProvider(
     },
   };
 
+  registerNextcloudTalkDiagnostics(account);
+  try {
+    const monitor = await startNextcloudTalkMonitor({ opts, cfg, account, runtime });
+    recordNextcloudTalkStartResult(account.accountId);
+    return monitor;
+  } catch (err) {
+    recordNextcloudTalkStartResult(account.accountId, err);
+    throw err;
+  }
+}
+
+async function startNextcloudTalkMonitor(params: {
+  opts: NextcloudTalkMonitorOptions;
+  cfg: CoreConfig;
+  account: ResolvedNextcloudTalkAccount;
+  runtime: RuntimeEnv;
+}): Promise<{ stop: () => Promise<void> }> {
+  const { opts, cfg, account, runtime } = params;
+  const core = getNextcloudTalkRuntime();
   if (!account.secret) {
     throw new Error(`Nextcloud Talk bot secret not configured for account "${account.accountId}"`);
   }
@@ -287,47 +580,340 @@ export async function monitorNextcloudTalkProvider(
   const port = account.config.webhookPort ?? DEFAULT_WEBHOOK_PORT;
   const host = account.config.webhookHost ?? DEFAULT_WEBHOOK_HOST;
   const path = account.config.webhookPath ?? DEFAULT_WEBHOOK_PATH;
+  const socketPath = account.config.webhookSocketPath;
+  const tls = account.config.webhookTls;
+  const listenTarget: NextcloudTalkListenTarget = socketPath ? { socketPath } : { port, host };
 
   const logger = core.logging.getChildLogger({
     channel: "nextcloud-talk",
     accountId: account.accountId,
   });
 
-  const { start, stop } = createNextcloudTalkWebhookServer({
-    port,
-    host,
-    path,
-    secret: account.secret,
-    onMessage: async (message) => {
-      core.channel.activity.record({
-        channel: "nextcloud-talk",
-        accountId: account.accountId,
-        direction: "inbound",
-        at: message.timestamp,
-      });
+  const metricsToken = account.config.webhookMetrics
+    ? account.config.webhookMetricsToken?.trim() || undefined
+    : undefined;
+  if (account.config.webhookMetrics && !metricsToken) {
+    logger.warn(
+      `[nextcloud-talk:${account.accountId}] webhookMetrics needs webhookMetricsToken; /metrics stays off`,
+    );
+  }
+
+  const replayWindowSeconds = account.config.webhookReplayWindowSeconds;
+  const replayGuard = createNextcloudTalkReplayGuard({
+    accountId: account.accountId,
+    windowMs: replayWindowSeconds ? replayWindowSeconds * 1000 : undefined,
+    filePath: resolveNextcloudTalkStatePath(account.accountId, "replay-guard.json"),
+    onError: (err) => {
+      logger.error(
+        `[nextcloud-talk:${account.accountId}] failed saving webhook replay state: ${formatError(err)}`,
+      );
+    },
+  });
+
+  const cursors = createNextcloudTalkCursorStore({
+    filePath: resolveNextcloudTalkStatePath(account.accountId, "cursors.json"),
+    onError: (err) => {
+      logger.error(
+        `[nextcloud-talk:${account.accountId}] failed saving message cursors: ${formatError(err)}`,
+      );
+    },
+  });
+  const credentials = resolveNextcloudTalkApiCredentials(account);
+
+  const queueConfig = account.config.inboundQueue;
+  const scheduler = createNextcloudTalkInboundScheduler({
+    maxConcurrentRooms: queueConfig?.maxConcurrentRooms,
+    maxQueueDepth: queueConfig?.maxDepth,
+    overflow: queueConfig?.overflow,
+    run: async (message) => {
       if (opts.onMessage) {
         await opts.onMessage(message);
-        return;
+      } else {
+        await handleNextcloudTalkInbound({
+          message,
+          account,
+          config: cfg,
+          runtime,
+          statusSink: opts.statusSink,
+        });
       }
-      await handleNextcloudTalkInbound({
-        message,
-        account,
-        config: cfg,
-        runtime,
-        statusSink: opts.statusSink,
-      });
+      if (!message.event) {
+        cursorCommitter.complete(message.roomToken, resolveNextcloudTalkMessageIds(message));
+      }
+    },
+    onDrop: (message, reason) => {
+      recordNextcloudTalkDrop(account.accountId, "queue_full");
+      runtime.log?.(
+        `nextcloud-talk: drop message ${message.messageId} in room ${message.roomToken} (${reason})`,
+      );
+    },
+    onError: (err, message) => {
+      logger.error(
+        `[nextcloud-talk:${account.accountId}] inbound ${message.messageId} failed: ${formatError(err)}`,
+      );
     },
+    onRoomIdle: (roomToken) => cursorCommitter.flush(roomToken),
+  });
+
+  const cursorCommitter = createNextcloudTalkCursorCommitter({
+    cursors,
+    unfinishedIds: (roomToken) =>
+      [...scheduler.pending(roomToken), ...debouncer.pending(roomToken)]
+        .filter((message) => !message.event)
+        .flatMap(resolveNextcloudTalkMessageIds),
+  });
+
+  const debouncer = createNextcloudTalkInboundDebouncer({
+    windowMs: queueConfig?.debounceMs ?? 0,
+    maxWaitMs: queueConfig?.debounceMaxWaitMs,
+    shouldBypass: (message) =>
+      core.channel.text.hasControlCommand(message.text, cfg as OpenClawConfig),
+    onHold: (message) =>
+      holdNextcloudTalkTyping({ account, roomToken: message.roomToken, runtime }),
+    flush: (message) => scheduler.enqueue(message),
+  });
+
+  const pendingPath = resolveNextcloudTalkStatePath(account.accountId, "pending.json");
+  const drainTimeoutMs =
+    (account.config.shutdownDrainSeconds ?? DEFAULT_SHUTDOWN_DRAIN_SECONDS) * 1000;
+  let draining = false;
+  let drained: Promise<void> | undefined;
+  /**
+   * Let running turns finish (up to the drain deadline), save the messages that never
+   * started for the next start, then `release` the inbound source. Safe to call
+   * repeatedly.
+   */
+  const drain = (release: () => void): Promise<void> => {
+    drained ??= (async () => {
+      draining = true;
+      debouncer.flushAll();
+      const pending = await scheduler.drain(drainTimeoutMs);
+      await stopNextcloudTalkTyping(account.accountId);
+      const stillRunning = scheduler.size() - pending.length;
+      if (stillRunning > 0) {
+        logger.warn(
+          `[nextcloud-talk:${account.accountId}] ${stillRunning} turn(s) still running at the drain deadline; they will not be resumed`,
+        );
+      }
+      if (pending.length > 0) {
+        try {
+          await saveNextcloudTalkPendingMessages(pendingPath, pending);
+          logger.warn(
+            `[nextcloud-talk:${account.accountId}] saved ${pending.length} unfinished message(s) to resume on next start`,
+          );
+        } catch (err) {
+          logger.error(
+            `[nextcloud-talk:${account.accountId}] failed saving unfinished messages: ${formatError(err)}`,
+          );
+        }
+      }
+      release();
+      await Promise.all([
+        cursors.flush(),
+        replayGuard.flush(),
+        flushNextcloudTalkOwnMessages(account.accountId),
+      ]);
+    })();
+    return drained;
+  };
+
+  const ingest = (message: NextcloudTalkInboundMessage) => {
+    core.channel.activity.record({
+      channel: "nextcloud-talk",
+      accountId: account.accountId,
+      direction: "inbound",
+      at: message.timestamp,
+    });
+    recordNextcloudTalkInboundReceived(account.accountId);
+    debouncer.push(message);
+  };
+
+  const catchUpConfig = account.config.catchUp;
+  // Newest id catch-up handed over per room, so polling does not fetch it again.
+  const caughtUpTo = new Map<string, number>();
+  const noteCaughtUp = (roomToken: string, messageId: number) => {
+    caughtUpTo.set(roomToken, Math.max(caughtUpTo.get(roomToken) ?? 0, messageId));
+  };
+  const catchUp = async (roomTokens?: string[]) => {
+    if (!credentials || catchUpConfig?.enabled === false) {
+      return;
+    }
+    const replayed = await catchUpNextcloudTalkRooms({
+      baseUrl: account.baseUrl,
+      ...credentials,
+      cursors,
+      roomTokens,
+      maxMessages: catchUpConfig?.maxMessages,
+      maxAgeMinutes: catchUpConfig?.maxAgeMinutes,
+      onMessage: (message) => {
+        const { roomToken, messageId } = message;
+        noteCaughtUp(roomToken, Number(messageId));
+        if (replayGuard.acceptMessage({ roomToken, messageId })) {
+          ingest(message);
+        }
+      },
+      onSkip: (roomToken, messageId) => {
+        noteCaughtUp(roomToken, messageId);
+        cursorCommitter.complete(roomToken, [messageId]);
+      },
+      onError: (err, roomToken) => {
+        logger.error(
+          `[nextcloud-talk:${account.accountId}] catch-up failed for room ${roomToken}: ${formatError(err)}`,
+        );
+      },
+      signal: opts.abortSignal,
+    });
+    if (replayed > 0) {
+      logger.info(
+        `[nextcloud-talk:${account.accountId}] caught up on ${replayed} missed message(s)`,
+      );
+    }
+  };
+
+  const resumed = takeNextcloudTalkPendingMessages(pendingPath);
+  for (const message of resumed) {
+    replayGuard.acceptMessage({
+      roomToken: message.roomToken,
+      messageId: message.messageId,
+      event: message.event,
+    });
+    ingest(message);
+  }
+  if (resumed.length > 0) {
+    logger.info(
+      `[nextcloud-talk:${account.accountId}] resuming ${resumed.length} message(s) left from shutdown`,
+    );
+  }
+
+  if (account.config.mode === "polling") {
+    if (!credentials) {
+      throw new Error(
+        `Nextcloud Talk polling requires apiUser and apiPassword for account "${account.accountId}"`,
+      );
+    }
+    const roomTokens = Object.entries(account.config.rooms ?? {})
+      .filter(([key, room]) => key !== "*" && room?.enabled !== false)
+      .map(([key]) => key);
+    if (roomTokens.length === 0) {
+      logger.warn(
+        `[nextcloud-talk:${account.accountId}] polling mode has no rooms to watch (configure rooms by token)`,
+      );
+    }
+
+    await catchUp(roomTokens);
+
+    // No webhooks arrive in polling mode, but the shared listener still serves
+    // /healthz, /readyz and /metrics for the account.
+    let stopListener = () => {};
+    try {
+      ({ unregister: stopListener } = await registerNextcloudTalkWebhookRoute({
+        target: listenTarget,
+        tls,
+        route: {
+          accountId: account.accountId,
+          path,
+          secret: account.secret,
+          statusOnly: true,
+          metricsToken,
+          onMessage: () => {},
+        },
+      }));
+    } catch (err) {
+      logger.warn(
+        `[nextcloud-talk:${account.accountId}] status endpoints unavailable: ${formatError(err)}`,
+      );
+    }
+
+    const controller = new AbortController();
+    const stop = () => {
+      controller.abort();
+      return drain(stopListener);
+    };
+    opts.abortSignal?.addEventListener("abort", () => void stop(), { once: true });
+
+    void startNextcloudTalkPolling({
+      baseUrl: account.baseUrl,
+      ...credentials,
+      roomTokens,
+      timeoutSeconds: account.config.pollTimeoutSeconds,
+      cursors,
+      resumeAfter: caughtUpTo,
+      onMessage: ingest,
+      onSkip: (roomToken, messageId) => cursorCommitter.complete(roomToken, [messageId]),
+      onError: (err, roomToken) => {
+        logger.error(
+          `[nextcloud-talk:${account.accountId}] poll failed for room ${roomToken}: ${formatError(err)}`,
+        );
+      },
+      abortSignal: controller.signal,
+    });
+
+    logger.info(
+      `[nextcloud-talk:${account.accountId}] polling ${roomTokens.length} room(s) on ${account.baseUrl}`,
+    );
+    return { stop };
+  }
+
+  const route: NextcloudTalkWebhookRoute = {
+    accountId: account.accountId,
+    path,
+    secret: account.secret,
+    isBackendAllowed: (backend) =>
+      isNextcloudTalkBackendAllowed({
+        backend,
+        baseUrl: account.baseUrl,
+        allowedBackends: account.config.allowedBackends,
+      }),
+    replayGuard,
+    isDraining: () => draining,
+    metricsToken,
+    onMessage: ingest,
     onError: (error) => {
       logger.error(`[nextcloud-talk:${account.accountId}] webhook error: ${error.message}`);
     },
-    abortSignal: opts.abortSignal,
-  });
+    onRejected: ({ status, reason, roomToken }) => {
+      logger.warn(
+        `[nextcloud-talk:${account.accountId}] webhook rejected (${status}): ${reason}` +
+          (roomToken ? ` room=${roomToken}` : ""),
+      );
+      if (status === 403) {
+        opts.statusSink?.({ lastError: `webhook rejected: ${reason}` });
+      }
+    },
+  };
 
-  await start();
+  // Replay what was missed while we were down before accepting new webhooks,
+  // so the scheduler sees room messages in order.
+  await catchUp();
+
+  let stopListener: () => void;
+  if (account.config.webhookListener === "dedicated") {
+    const server = createNextcloudTalkWebhookServer({
+      ...route,
+      port,
+      host,
+      socketPath,
+      tls,
+    });
+    await server.start();
+    stopListener = server.stop;
+  } else {
+    const { unregister } = await registerNextcloudTalkWebhookRoute({
+      target: listenTarget,
+      tls,
+      route,
+    });
+    stopListener = unregister;
+  }
+  // The listener stays up while draining so new webhooks get 503 + Retry-After.
+  const stop = () => drain(stopListener);
+  opts.abortSignal?.addEventListener("abort", () => void stop(), { once: true });
 
   const publicUrl =
     account.config.webhookPublicUrl ??
-    `http://${host === "0.0.0.0" ? "localhost" : host}:${port}${path}`;
+    (socketPath
+      ? `unix:${socketPath}:${path}`
+      : `${tls ? "https" : "http"}://${host === "0.0.0.0" ? "localhost" : host}:${port}${path}`);
   logger.info(`[nextcloud-talk:${account.accountId}] webhook listening on ${publicUrl}`);
 
   return { stop };
@@ -0,0 +1,40 @@
+/**
+ * Inbound messages left unfinished by a shutdown drain, persisted so the next
+ * start can resume them. The file is consumed (deleted) when read.
+ */
+
+import { readFileSync, rmSync } from "node:fs";
+import { writeNextcloudTalkStateFile } from "./state-file.js";
+import type { NextcloudTalkInboundMessage } from "./types.js";
+
+type PendingFile = {
+  version: 1;
+  savedAt: number;
+  messages: NextcloudTalkInboundMessage[];
+};
+
+export async function saveNextcloudTalkPendingMessages(
+  filePath: string,
+  messages: NextcloudTalkInboundMessage[],
+): Promise<void> {
+  const data: PendingFile = { version: 1, savedAt: Date.now(), messages };
+  await writeNextcloudTalkStateFile(filePath, data);
+}
+
+/** Read and remove pending messages saved by the previous run. */
+export function takeNextcloudTalkPendingMessages(filePath: string): NextcloudTalkInboundMessage[] {
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, "utf-8");
+  } catch {
+    return [];
+  }
+  rmSync(filePath, { force: true });
+  try {
+    const parsed = JSON.parse(raw) as Partial<PendingFile>;
+    return Array.isArray(parsed.messages) ? parsed.messages : [];
+  } catch {
+    // Corrupt file: nothing we can safely resume.
+    return [];
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { resolveNextcloudTalkAllowlistMatch } from "./policy.js";
+import { resolveNextcloudTalkAllowlistMatch, resolveNextcloudTalkSilent } from "./policy.js";
 
 describe("nextcloud-talk policy", () => {
   describe("resolveNextcloudTalkAllowlistMatch", () => {
@@ -21,6 +21,30 @@ describe("nextcloud-talk policy", () => {
       ).toEqual({ allowed: true, matchKey: "user-id", matchSource: "id" });
     });
 
+    it("matches Talk actor ids against bare user entries", () => {
+      expect(
+        resolveNextcloudTalkAllowlistMatch({
+          allowFrom: ["alice"],
+          senderId: "users/alice",
+        }),
+      ).toEqual({ allowed: true, matchKey: "alice", matchSource: "id" });
+    });
+
+    it("matches typed patterns without letting guests match user entries", () => {
+      expect(
+        resolveNextcloudTalkAllowlistMatch({
+          allowFrom: ["guest:*"],
+          senderId: "guests/4f2a",
+        }),
+      ).toEqual({ allowed: true, matchKey: "guest:*", matchSource: "pattern" });
+      expect(
+        resolveNextcloudTalkAllowlistMatch({
+          allowFrom: ["4f2a"],
+          senderId: "guests/4f2a",
+        }).allowed,
+      ).toBe(false);
+    });
+
     it("blocks when sender id does not match", () => {
       expect(
         resolveNextcloudTalkAllowlistMatch({
@@ -30,4 +54,29 @@ describe("nextcloud-talk policy", () => {
       ).toBe(false);
     });
   });
+
+  describe("resolveNextcloudTalkSilent", () => {
+    it("silences every kind when a room sets silent: true", () => {
+      expect(resolveNextcloudTalkSilent({ roomConfig: { silent: true }, kind: "reply" })).toBe(
+        true,
+      );
+    });
+
+    it("silences only the listed kinds, falling back to the wildcard room", () => {
+      const wildcardConfig = { silent: ["block" as const, "proactive" as const] };
+      expect(resolveNextcloudTalkSilent({ wildcardConfig, kind: "block" })).toBe(true);
+      expect(resolveNextcloudTalkSilent({ wildcardConfig, kind: "reply" })).toBe(false);
+      expect(
+        resolveNextcloudTalkSilent({
+          roomConfig: { silent: false },
+          wildcardConfig,
+          kind: "block",
+        }),
+      ).toBe(false);
+    });
+
+    it("is not silent without config", () => {
+      expect(resolveNextcloudTalkSilent({ kind: "pairing" })).toBe(false);
+    });
+  });
 });
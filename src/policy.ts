@@ -11,7 +11,16 @@ import {
   resolveMentionGatingWithBypass,
   resolveNestedAllowlistDecision,
 } from "openclaw/plugin-sdk";
-import type { NextcloudTalkRoomConfig } from "./types.js";
+import {
+  formatNextcloudTalkActorKey,
+  matchesNextcloudTalkAllowEntry,
+  parseNextcloudTalkActorId,
+} from "./actors.js";
+import type {
+  NextcloudTalkGuestPolicy,
+  NextcloudTalkRoomConfig,
+  NextcloudTalkSilentKind,
+} from "./types.js";
 
 function normalizeAllowEntry(raw: string): string {
   return raw
@@ -26,10 +35,16 @@ export function normalizeNextcloudTalkAllowlist(
   return (values ?? []).map((value) => normalizeAllowEntry(String(value))).filter(Boolean);
 }
 
+export type NextcloudTalkAllowlistMatch = AllowlistMatch<"wildcard" | "id" | "pattern">;
+
+/**
+ * Match a sender (raw actor id or sender key) against an allowlist. Entries may name
+ * actor types and patterns such as `guest:*` or `federated:*@partner.cloud`.
+ */
 export function resolveNextcloudTalkAllowlistMatch(params: {
   allowFrom: Array<string | number> | undefined;
   senderId: string;
-}): AllowlistMatch<"wildcard" | "id"> {
+}): NextcloudTalkAllowlistMatch {
   const allowFrom = normalizeNextcloudTalkAllowlist(params.allowFrom);
   if (allowFrom.length === 0) {
     return { allowed: false };
@@ -37,11 +52,25 @@ export function resolveNextcloudTalkAllowlistMatch(params: {
   if (allowFrom.includes("*")) {
     return { allowed: true, matchKey: "*", matchSource: "wildcard" };
   }
-  const senderId = normalizeAllowEntry(params.senderId);
-  if (allowFrom.includes(senderId)) {
-    return { allowed: true, matchKey: senderId, matchSource: "id" };
+  const actor = parseNextcloudTalkActorId(normalizeAllowEntry(params.senderId));
+  const entry = allowFrom.find((candidate) => matchesNextcloudTalkAllowEntry(candidate, actor));
+  if (!entry) {
+    return { allowed: false };
   }
-  return { allowed: false };
+  return entry.includes("*")
+    ? { allowed: true, matchKey: entry, matchSource: "pattern" }
+    : { allowed: true, matchKey: formatNextcloudTalkActorKey(actor), matchSource: "id" };
+}
+
+/** Guest policy for a room: room config, then the `*` room, then the account. */
+export function resolveNextcloudTalkGuestPolicy(params: {
+  accountPolicy?: NextcloudTalkGuestPolicy;
+  roomConfig?: NextcloudTalkRoomConfig;
+  wildcardConfig?: NextcloudTalkRoomConfig;
+}): NextcloudTalkGuestPolicy | undefined {
+  return (
+    params.roomConfig?.guestPolicy ?? params.wildcardConfig?.guestPolicy ?? params.accountPolicy
+  );
 }
 
 export type NextcloudTalkRoomMatch = {
@@ -122,12 +151,33 @@ export function resolveNextcloudTalkRequireMention(params: {
   return true;
 }
 
+export function resolveNextcloudTalkMentionAll(params: {
+  roomConfig?: NextcloudTalkRoomConfig;
+  wildcardConfig?: NextcloudTalkRoomConfig;
+}): boolean {
+  return params.roomConfig?.mentionAll ?? params.wildcardConfig?.mentionAll ?? true;
+}
+
+/** Whether a kind of bot message goes out silently in a room (room, then wildcard). */
+export function resolveNextcloudTalkSilent(params: {
+  roomConfig?: NextcloudTalkRoomConfig;
+  wildcardConfig?: NextcloudTalkRoomConfig;
+  kind: NextcloudTalkSilentKind;
+}): boolean {
+  const silent = params.roomConfig?.silent ?? params.wildcardConfig?.silent;
+  return Array.isArray(silent) ? silent.includes(params.kind) : silent === true;
+}
+
 export function resolveNextcloudTalkGroupAllow(params: {
   groupPolicy: GroupPolicy;
   outerAllowFrom: Array<string | number> | undefined;
   innerAllowFrom: Array<string | number> | undefined;
   senderId: string;
-}): { allowed: boolean; outerMatch: AllowlistMatch; innerMatch: AllowlistMatch } {
+}): {
+  allowed: boolean;
+  outerMatch: NextcloudTalkAllowlistMatch;
+  innerMatch: NextcloudTalkAllowlistMatch;
+} {
   if (params.groupPolicy === "disabled") {
     return { allowed: false, outerMatch: { allowed: false }, innerMatch: { allowed: false } };
   }
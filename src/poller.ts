@@ -0,0 +1,142 @@
+/**
+ * Polling ingestion for Nextcloud Talk instances that cannot reach the webhook.
+ *
+ * Each allowlisted room gets its own long-poll loop against the chat API using the
+ * account's API user. New messages are converted to inbound messages and handed to
+ * the same pipeline as webhooks. Polling continues from the last fetched id, while
+ * the persisted cursor only moves once messages are processed (see cursor-store.ts),
+ * so a restart resumes after the last processed message.
+ */
+
+import type { NextcloudTalkCursorStore } from "./cursor-store.js";
+import {
+  chatMessageToInboundMessage,
+  fetchNextcloudTalkChatMessages,
+  isNextcloudTalkChatMessageIngestible,
+} from "./chat-api.js";
+import type { NextcloudTalkInboundMessage } from "./types.js";
+
+const DEFAULT_POLL_TIMEOUT_SECONDS = 30;
+const POLL_RETRY_MIN_MS = 2_000;
+const POLL_RETRY_MAX_MS = 60_000;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+async function pollRoom(params: {
+  baseUrl: string;
+  apiUser: string;
+  apiPassword: string;
+  roomToken: string;
+  timeoutSeconds: number;
+  cursors: NextcloudTalkCursorStore;
+  resumeAfter?: number;
+  onMessage: (message: NextcloudTalkInboundMessage) => void;
+  onSkip: (roomToken: string, messageId: number) => void;
+  onError: (error: unknown, roomToken: string) => void;
+  signal: AbortSignal;
+}): Promise<void> {
+  const { roomToken, cursors, signal } = params;
+  const credentials = {
+    baseUrl: params.baseUrl,
+    apiUser: params.apiUser,
+    apiPassword: params.apiPassword,
+    roomToken,
+  };
+  let retryMs = POLL_RETRY_MIN_MS;
+  // Last fetched message id; ahead of the cursor while fetched messages are processed.
+  const cursor = cursors.get(roomToken);
+  let lastFetchedId =
+    cursor === undefined && params.resumeAfter === undefined
+      ? undefined
+      : Math.max(cursor ?? 0, params.resumeAfter ?? 0);
+
+  while (!signal.aborted) {
+    try {
+      if (lastFetchedId === undefined) {
+        // First time we see this room: start from the newest message instead of
+        // feeding the whole history to the agent.
+        const latest = await fetchNextcloudTalkChatMessages({
+          ...credentials,
+          lookIntoFuture: false,
+          limit: 1,
+          signal,
+        });
+        lastFetchedId = latest.at(-1)?.id ?? 0;
+        cursors.advance(roomToken, lastFetchedId);
+        continue;
+      }
+
+      const messages = await fetchNextcloudTalkChatMessages({
+        ...credentials,
+        lookIntoFuture: true,
+        lastKnownMessageId: lastFetchedId,
+        timeoutSeconds: params.timeoutSeconds,
+        signal,
+      });
+      for (const message of messages) {
+        if (isNextcloudTalkChatMessageIngestible(message, params.apiUser)) {
+          params.onMessage(chatMessageToInboundMessage(message));
+        } else {
+          params.onSkip(roomToken, message.id);
+        }
+        lastFetchedId = Math.max(lastFetchedId, message.id);
+      }
+      retryMs = POLL_RETRY_MIN_MS;
+    } catch (err) {
+      if (signal.aborted) {
+        break;
+      }
+      params.onError(err, roomToken);
+      await sleep(retryMs, signal);
+      retryMs = Math.min(retryMs * 2, POLL_RETRY_MAX_MS);
+    }
+  }
+}
+
+/**
+ * Start long-poll loops for the given rooms. Resolves once every loop has
+ * exited after the abort signal fires.
+ */
+export function startNextcloudTalkPolling(params: {
+  baseUrl: string;
+  apiUser: string;
+  apiPassword: string;
+  roomTokens: string[];
+  timeoutSeconds?: number;
+  cursors: NextcloudTalkCursorStore;
+  /** Per room, the newest id already handed over (by catch-up); polling starts after it. */
+  resumeAfter?: ReadonlyMap<string, number>;
+  onMessage: (message: NextcloudTalkInboundMessage) => void;
+  /** Fetched messages that are not ingested, so the cursor can move past them. */
+  onSkip: (roomToken: string, messageId: number) => void;
+  onError: (error: unknown, roomToken: string) => void;
+  abortSignal: AbortSignal;
+}): Promise<void> {
+  const { roomTokens, abortSignal, resumeAfter, ...rest } = params;
+  const timeoutSeconds = params.timeoutSeconds ?? DEFAULT_POLL_TIMEOUT_SECONDS;
+  return Promise.all(
+    roomTokens.map((roomToken) =>
+      pollRoom({
+        ...rest,
+        roomToken,
+        timeoutSeconds,
+        resumeAfter: resumeAfter?.get(roomToken),
+        signal: abortSignal,
+      }),
+    ),
+  ).then(() => undefined);
+}
@@ -0,0 +1,73 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { createNextcloudTalkReplayGuard } from "./replay-guard.js";
+
+describe("nextcloud-talk replay guard", () => {
+  it("rejects a reused nonce in the same room", () => {
+    const guard = createNextcloudTalkReplayGuard({ accountId: "default" });
+    expect(guard.acceptNonce({ roomToken: "room1", random: "abc" })).toBe(true);
+    expect(guard.acceptNonce({ roomToken: "room1", random: "abc" })).toBe(false);
+    expect(guard.acceptNonce({ roomToken: "room2", random: "abc" })).toBe(true);
+  });
+
+  it("forgets nonces after the window", () => {
+    let now = 0;
+    const guard = createNextcloudTalkReplayGuard({
+      accountId: "default",
+      windowMs: 1_000,
+      now: () => now,
+    });
+    expect(guard.acceptNonce({ roomToken: "room1", random: "abc" })).toBe(true);
+    now = 1_500;
+    expect(guard.acceptNonce({ roomToken: "room1", random: "abc" })).toBe(true);
+  });
+
+  it("drops duplicate message deliveries but allows repeated edits", () => {
+    const guard = createNextcloudTalkReplayGuard({ accountId: "default" });
+    expect(guard.acceptMessage({ roomToken: "room1", messageId: "7" })).toBe(true);
+    expect(guard.acceptMessage({ roomToken: "room1", messageId: "7" })).toBe(false);
+    expect(guard.acceptMessage({ roomToken: "room1", messageId: "7", event: "delete" })).toBe(true);
+    expect(guard.acceptMessage({ roomToken: "room1", messageId: "7", event: "edit" })).toBe(true);
+    expect(guard.acceptMessage({ roomToken: "room1", messageId: "7", event: "edit" })).toBe(true);
+  });
+
+  it("remembers message ids past the nonce window", () => {
+    let now = 0;
+    const guard = createNextcloudTalkReplayGuard({
+      accountId: "default",
+      windowMs: 1_000,
+      now: () => now,
+    });
+    expect(guard.acceptMessage({ roomToken: "room1", messageId: "7" })).toBe(true);
+    now = 60_000;
+    expect(guard.acceptMessage({ roomToken: "room1", messageId: "7" })).toBe(false);
+  });
+
+  it("keeps nonces and message ids across a restart", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "nc-talk-replay-"));
+    const filePath = join(dir, "replay-guard.json");
+    try {
+      const first = createNextcloudTalkReplayGuard({ accountId: "default", filePath });
+      first.acceptNonce({ roomToken: "room1", random: "abc" });
+      first.acceptMessage({ roomToken: "room1", messageId: "7" });
+      await first.flush();
+
+      const second = createNextcloudTalkReplayGuard({ accountId: "default", filePath });
+      expect(second.acceptNonce({ roomToken: "room1", random: "abc" })).toBe(false);
+      expect(second.acceptMessage({ roomToken: "room1", messageId: "7" })).toBe(false);
+      expect(second.acceptMessage({ roomToken: "room1", messageId: "8" })).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("stays bounded", () => {
+    const guard = createNextcloudTalkReplayGuard({ accountId: "default", maxEntries: 2 });
+    guard.acceptNonce({ roomToken: "room1", random: "a" });
+    guard.acceptNonce({ roomToken: "room1", random: "b" });
+    guard.acceptNonce({ roomToken: "room1", random: "c" });
+    expect(guard.acceptNonce({ roomToken: "room1", random: "a" })).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Webhook replay protection for Nextcloud Talk.
+ *
+ * The Talk signature covers `random + body` but carries no timestamp, so a captured
+ * request stays valid forever. We remember every accepted `X-Nextcloud-Talk-Random`
+ * value for a bounded window, and delivered message ids until the entry bound evicts
+ * them, and reject repeats. With a `filePath` both survive a restart.
+ */
+
+import { createNextcloudTalkStateWriter, readNextcloudTalkStateFile } from "./state-file.js";
+import type { NextcloudTalkInboundEvent } from "./types.js";
+
+export type NextcloudTalkReplayGuard = {
+  /** Record a signed request nonce. Returns false if it was already used. */
+  acceptNonce: (params: { roomToken: string; random: string }) => boolean;
+  /** Record a message delivery. Returns false if the message was already delivered. */
+  acceptMessage: (params: {
+    roomToken: string;
+    messageId: string;
+    event?: NextcloudTalkInboundEvent;
+  }) => boolean;
+  /** Write pending changes to disk (no-op without a `filePath`). */
+  flush: () => Promise<void>;
+};
+
+type ReplayGuardFile = {
+  version: 1;
+  /** `[key, addedAt]`, oldest first. */
+  nonces: Array<[string, number]>;
+  messages: Array<[string, number]>;
+};
+
+const DEFAULT_REPLAY_WINDOW_MS = 10 * 60 * 1000;
+const DEFAULT_REPLAY_MAX_ENTRIES = 10_000;
+
+function createBoundedSet(params: {
+  /** Entries older than this are forgotten; undefined keeps them until evicted. */
+  windowMs?: number;
+  maxEntries: number;
+  now: () => number;
+  stored?: Array<[string, number]>;
+  onChange: () => void;
+}) {
+  const { windowMs, maxEntries, now, onChange } = params;
+  // Insertion order matches expiry order because every entry lives for the same window.
+  const entries = new Map<string, number>(
+    Array.isArray(params.stored) ? params.stored.slice(-maxEntries) : [],
+  );
+
+  const prune = (at: number) => {
+    if (windowMs === undefined) {
+      return;
+    }
+    for (const [key, addedAt] of entries) {
+      if (addedAt + windowMs > at) {
+        break;
+      }
+      entries.delete(key);
+    }
+  };
+
+  return {
+    /** Add a key; false if it is already present and unexpired. */
+    add: (key: string): boolean => {
+      const at = now();
+      prune(at);
+      if (entries.has(key)) {
+        return false;
+      }
+      if (entries.size >= maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey !== undefined) entries.delete(oldestKey);
+      }
+      entries.set(key, at);
+      onChange();
+      return true;
+    },
+    snapshot: (): Array<[string, number]> => [...entries],
+  };
+}
+
+export function createNextcloudTalkReplayGuard(params: {
+  accountId: string;
+  windowMs?: number;
+  maxEntries?: number;
+  now?: () => number;
+  /** Persist nonces and message ids here so they survive a restart. */
+  filePath?: string;
+  onError?: (error: unknown) => void;
+}): NextcloudTalkReplayGuard {
+  const { accountId, filePath } = params;
+  const maxEntries = params.maxEntries ?? DEFAULT_REPLAY_MAX_ENTRIES;
+  const now = params.now ?? Date.now;
+  const stored = filePath ? readNextcloudTalkStateFile<ReplayGuardFile>(filePath) : undefined;
+  const writer = filePath
+    ? createNextcloudTalkStateWriter({
+        filePath,
+        snapshot: (): ReplayGuardFile => ({
+          version: 1,
+          nonces: nonces.snapshot(),
+          messages: messages.snapshot(),
+        }),
+        onError: params.onError,
+      })
+    : undefined;
+  const onChange = () => writer?.schedule();
+
+  const nonces = createBoundedSet({
+    windowMs: params.windowMs ?? DEFAULT_REPLAY_WINDOW_MS,
+    maxEntries,
+    now,
+    stored: stored?.nonces,
+    onChange,
+  });
+  // Nextcloud may redeliver a message long after the nonce window, so message ids are
+  // only dropped once the bound evicts them.
+  const messages = createBoundedSet({ maxEntries, now, stored: stored?.messages, onChange });
+
+  return {
+    acceptNonce: ({ roomToken, random }) => nonces.add(`${accountId}:${roomToken}:${random}`),
+    acceptMessage: ({ roomToken, messageId, event = "create" }) => {
+      // Edits reuse the original message id, so repeated edits are legitimate;
+      // the nonce check already covers replays of a single edit.
+      if (event === "edit") {
+        return true;
+      }
+      return messages.add(`${accountId}:${roomToken}:${event}:${messageId}`);
+    },
+    flush: () => writer?.flush() ?? Promise.resolve(),
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  computeNextcloudTalkBackoff,
+  fetchWithNextcloudTalkRetry,
+  parseNextcloudTalkRetryAfter,
+} from "./retry.js";
+
+function connectionError(code: string): Error {
+  return new TypeError("fetch failed", { cause: Object.assign(new Error(code), { code }) });
+}
+
+describe("nextcloud-talk retry", () => {
+  it("parses Retry-After seconds and dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseNextcloudTalkRetryAfter("3", now)).toBe(3000);
+    expect(parseNextcloudTalkRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT", now)).toBe(10_000);
+    expect(parseNextcloudTalkRetryAfter("soon", now)).toBeUndefined();
+    expect(parseNextcloudTalkRetryAfter(null, now)).toBeUndefined();
+  });
+
+  it("backs off exponentially within the jitter band and caps the delay", () => {
+    const config = { minDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 };
+    expect(computeNextcloudTalkBackoff(1, config, () => 0.5)).toBe(100);
+    expect(computeNextcloudTalkBackoff(3, config, () => 0.5)).toBe(400);
+    expect(computeNextcloudTalkBackoff(3, config, () => 0)).toBe(200);
+    expect(computeNextcloudTalkBackoff(10, config, () => 1)).toBe(1500);
+  });
+
+  it("retries 503 and honours Retry-After on 429", async () => {
+    const responses = [
+      new Response("", { status: 503 }),
+      new Response("", { status: 429, headers: { "Retry-After": "2" } }),
+      new Response("ok", { status: 201 }),
+    ];
+    const sleep = vi.fn(async () => {});
+    const result = await fetchWithNextcloudTalkRetry(
+      async () => responses.shift() as Response,
+      { attempts: 3, minDelayMs: 100, jitter: 0 },
+      { sleep },
+    );
+
+    expect(result.response.status).toBe(201);
+    expect(result.attempts).toBe(3);
+    expect(sleep.mock.calls).toEqual([[100], [2000]]);
+  });
+
+  it("retries 502 and 504 only for idempotent requests", async () => {
+    const gatewayError = vi.fn(async () => new Response("", { status: 502 }));
+    const sleep = async () => {};
+    const post = await fetchWithNextcloudTalkRetry(gatewayError, { attempts: 3 }, { sleep });
+    expect(post.attempts).toBe(1);
+
+    const put = await fetchWithNextcloudTalkRetry(
+      gatewayError,
+      { attempts: 3 },
+      { idempotent: true, sleep },
+    );
+    expect(put.attempts).toBe(3);
+  });
+
+  it("fails fast on permanent errors", async () => {
+    const request = vi.fn(async () => new Response("", { status: 403 }));
+    const result = await fetchWithNextcloudTalkRetry(request, {}, { sleep: async () => {} });
+    expect(result).toMatchObject({ attempts: 1 });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops when Retry-After exceeds the longest allowed delay", async () => {
+    const request = vi.fn(
+      async () => new Response("", { status: 429, headers: { "Retry-After": "120" } }),
+    );
+    const result = await fetchWithNextcloudTalkRetry(
+      request,
+      { maxDelayMs: 5000 },
+      {
+        sleep: async () => {},
+      },
+    );
+    expect(result.response.status).toBe(429);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries connection errors but not resets or timeouts", async () => {
+    const refused = vi
+      .fn<() => Promise<Response>>()
+      .mockRejectedValueOnce(connectionError("ECONNREFUSED"))
+      .mockResolvedValueOnce(new Response("ok", { status: 201 }));
+    await expect(
+      fetchWithNextcloudTalkRetry(refused, {}, { sleep: async () => {} }),
+    ).resolves.toMatchObject({ attempts: 2 });
+
+    const reset = vi.fn(async () => {
+      throw connectionError("ECONNRESET");
+    });
+    await expect(fetchWithNextcloudTalkRetry(reset, {}, { sleep: async () => {} })).rejects.toThrow(
+      "fetch failed",
+    );
+    expect(reset).toHaveBeenCalledTimes(1);
+  });
+});
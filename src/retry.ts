@@ -0,0 +1,92 @@
+/**
+ * Retry policy for outbound Talk requests. Only failures where the request cannot have
+ * been applied are retried: 429 throttling, 503 from a restarting server, and
+ * connection errors raised before the request reached the server. A 502 or 504 can
+ * arrive after Talk stored the request, so those are only retried for idempotent
+ * requests (sends carrying a referenceId, edits, deletes and reactions). Delays back
+ * off exponentially with jitter; a `Retry-After` header overrides the backoff.
+ */
+
+import type { NextcloudTalkRetryConfig } from "./types.js";
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_MIN_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+const DEFAULT_JITTER = 0.2;
+
+const RETRYABLE_STATUSES = new Set([429, 503]);
+const IDEMPOTENT_RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EHOSTUNREACH"]);
+
+function isRetryableError(err: unknown): boolean {
+  const cause = err instanceof Error ? (err.cause as { code?: unknown } | undefined) : undefined;
+  return typeof cause?.code === "string" && RETRYABLE_ERROR_CODES.has(cause.code);
+}
+
+/** `Retry-After` in milliseconds (delta-seconds or HTTP date), if present and valid. */
+export function parseNextcloudTalkRetryAfter(
+  value: string | null | undefined,
+  now = Date.now(),
+): number | undefined {
+  if (!value?.trim()) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - now);
+}
+
+/** Backoff before retry number `attempt` (1-based), with ±jitter. */
+export function computeNextcloudTalkBackoff(
+  attempt: number,
+  config: NextcloudTalkRetryConfig = {},
+  random = Math.random,
+): number {
+  const minDelayMs = config.minDelayMs ?? DEFAULT_MIN_DELAY_MS;
+  const maxDelayMs = config.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const jitter = config.jitter ?? DEFAULT_JITTER;
+  const base = Math.min(maxDelayMs, minDelayMs * 2 ** (attempt - 1));
+  return Math.round(base * (1 + jitter * (random() * 2 - 1)));
+}
+
+/**
+ * Run `request` until it returns a non-retryable response or attempts run out.
+ * Resolves with the last response and the number of attempts made; errors that are
+ * not retried (or the last one) are rethrown. Pass `idempotent` only for requests
+ * that are safe to apply twice.
+ */
+export async function fetchWithNextcloudTalkRetry(
+  request: () => Promise<Response>,
+  config: NextcloudTalkRetryConfig = {},
+  options: { idempotent?: boolean; sleep?: (ms: number) => Promise<void> } = {},
+): Promise<{ response: Response; attempts: number }> {
+  const sleep = options.sleep ?? ((ms: number) => new Promise((r) => setTimeout(r, ms)));
+  const retryableStatuses = options.idempotent ? IDEMPOTENT_RETRYABLE_STATUSES : RETRYABLE_STATUSES;
+  const maxAttempts = Math.max(1, config.attempts ?? DEFAULT_ATTEMPTS);
+  const maxDelayMs = config.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await request();
+    } catch (err) {
+      if (attempt >= maxAttempts || !isRetryableError(err)) {
+        throw err;
+      }
+      await sleep(computeNextcloudTalkBackoff(attempt, config));
+      continue;
+    }
+    if (attempt >= maxAttempts || !retryableStatuses.has(response.status)) {
+      return { response, attempts: attempt };
+    }
+    const retryAfterMs = parseNextcloudTalkRetryAfter(response.headers.get("retry-after"));
+    if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) {
+      // The server wants us to wait longer than the policy allows; report it as is.
+      return { response, attempts: attempt };
+    }
+    await response.body?.cancel().catch(() => undefined);
+    await sleep(retryAfterMs ?? computeNextcloudTalkBackoff(attempt, config));
+  }
+}
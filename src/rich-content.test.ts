@@ -8,21 +8,32 @@ import { describe, expect, it } from "vitest";
 // --- Inline the pure functions under test ---
 
 type RichObjectParam = {
-  type: string; id: string; name: string;
-  size?: number; path?: string; link?: string;
-  mimetype?: string; "preview-available"?: string;
+  type: string;
+  id: string;
+  name: string;
+  size?: number;
+  path?: string;
+  link?: string;
+  mimetype?: string;
+  "preview-available"?: string;
 };
 type RichContent = { message: string; parameters?: Record<string, RichObjectParam> };
 
 function parseRichContent(content: string): RichContent | null {
   try {
     const parsed = JSON.parse(content);
-    if (typeof parsed !== "object" || parsed === null || typeof parsed.message !== "string") return null;
+    if (typeof parsed !== "object" || parsed === null || typeof parsed.message !== "string")
+      return null;
     return parsed as RichContent;
-  } catch { return null; }
+  } catch {
+    return null;
+  }
 }
 
-function resolveRichMessageText(message: string, parameters: Record<string, RichObjectParam> | undefined): string {
+function resolveRichMessageText(
+  message: string,
+  parameters: Record<string, RichObjectParam> | undefined,
+): string {
   if (!parameters) return message;
   return message.replace(/\{([\w-]+)\}/g, (match, key: string) => {
     const param = parameters[key];
@@ -30,7 +41,9 @@ function resolveRichMessageText(message: string, parameters: Record<string, Rich
   });
 }
 
-function extractFileParameters(parameters: Record<string, RichObjectParam> | undefined): RichObjectParam[] {
+function extractFileParameters(
+  parameters: Record<string, RichObjectParam> | undefined,
+): RichObjectParam[] {
   if (!parameters) return [];
   return Object.values(parameters).filter((p) => p.type === "file");
 }
@@ -48,7 +61,11 @@ function processContent(rawContent: string, objectName: string) {
   return { text, fileParameters: fileParameters.length > 0 ? fileParameters : undefined };
 }
 
-function buildFileDownloadUrl(file: RichObjectParam, baseUrl: string, apiUser: string | undefined): string | undefined {
+function buildFileDownloadUrl(
+  file: RichObjectParam,
+  baseUrl: string,
+  apiUser: string | undefined,
+): string | undefined {
   if (baseUrl && apiUser && file.path) {
     const encodedPath = file.path.split("/").map(encodeURIComponent).join("/");
     return `${baseUrl}/remote.php/dav/files/${encodeURIComponent(apiUser)}/${encodedPath}`;
@@ -63,9 +80,15 @@ describe("parseRichContent", () => {
     const result = parseRichContent(JSON.stringify({ message: "Hello", parameters: {} }));
     expect(result).toEqual({ message: "Hello", parameters: {} });
   });
-  it("returns null for non-JSON", () => { expect(parseRichContent("plain text")).toBeNull(); });
-  it("returns null for JSON without message", () => { expect(parseRichContent(JSON.stringify({ foo: "bar" }))).toBeNull(); });
-  it("returns null for empty string", () => { expect(parseRichContent("")).toBeNull(); });
+  it("returns null for non-JSON", () => {
+    expect(parseRichContent("plain text")).toBeNull();
+  });
+  it("returns null for JSON without message", () => {
+    expect(parseRichContent(JSON.stringify({ foo: "bar" }))).toBeNull();
+  });
+  it("returns null for empty string", () => {
+    expect(parseRichContent("")).toBeNull();
+  });
 });
 
 describe("processContent (simulates payloadToInboundMessage)", () => {
@@ -76,28 +99,70 @@ describe("processContent (simulates payloadToInboundMessage)", () => {
   });
 
   it("single file share", () => {
-    const r = processContent(JSON.stringify({
-      message: "{file}",
-      parameters: { file: { type: "file", id: "117924", name: "IMG_123.jpg", size: 3145728, path: "Talk/IMG_123.jpg", link: "https://cloud.example.com/f/117924", mimetype: "image/jpeg", "preview-available": "yes" } }
-    }), "");
+    const r = processContent(
+      JSON.stringify({
+        message: "{file}",
+        parameters: {
+          file: {
+            type: "file",
+            id: "117924",
+            name: "IMG_123.jpg",
+            size: 3145728,
+            path: "Talk/IMG_123.jpg",
+            link: "https://cloud.example.com/f/117924",
+            mimetype: "image/jpeg",
+            "preview-available": "yes",
+          },
+        },
+      }),
+      "",
+    );
     expect(r.text).toBe("IMG_123.jpg");
     expect(r.fileParameters).toHaveLength(1);
     expect(r.fileParameters![0].mimetype).toBe("image/jpeg");
   });
 
   it("image share (mimetype image/*)", () => {
-    const r = processContent(JSON.stringify({
-      message: "{file}",
-      parameters: { file: { type: "file", id: "200", name: "screenshot.png", size: 500000, path: "Talk/screenshot.png", link: "https://cloud.example.com/f/200", mimetype: "image/png", "preview-available": "yes" } }
-    }), "");
+    const r = processContent(
+      JSON.stringify({
+        message: "{file}",
+        parameters: {
+          file: {
+            type: "file",
+            id: "200",
+            name: "screenshot.png",
+            size: 500000,
+            path: "Talk/screenshot.png",
+            link: "https://cloud.example.com/f/200",
+            mimetype: "image/png",
+            "preview-available": "yes",
+          },
+        },
+      }),
+      "",
+    );
     expect(r.fileParameters![0].mimetype).toBe("image/png");
   });
 
   it("text AND file attachment", () => {
-    const r = processContent(JSON.stringify({
-      message: "Check this out {file}",
-      parameters: { file: { type: "file", id: "125", name: "document.pdf", size: 524288, path: "Talk/document.pdf", link: "https://cloud.example.com/f/125", mimetype: "application/pdf", "preview-available": "no" } }
-    }), "");
+    const r = processContent(
+      JSON.stringify({
+        message: "Check this out {file}",
+        parameters: {
+          file: {
+            type: "file",
+            id: "125",
+            name: "document.pdf",
+            size: 524288,
+            path: "Talk/document.pdf",
+            link: "https://cloud.example.com/f/125",
+            mimetype: "application/pdf",
+            "preview-available": "no",
+          },
+        },
+      }),
+      "",
+    );
     expect(r.text).toBe("Check this out document.pdf");
     expect(r.fileParameters).toHaveLength(1);
   });
@@ -114,13 +179,32 @@ describe("processContent (simulates payloadToInboundMessage)", () => {
   });
 
   it("multiple file parameters", () => {
-    const r = processContent(JSON.stringify({
-      message: "{file0} and {file1}",
-      parameters: {
-        file0: { type: "file", id: "301", name: "photo1.jpg", size: 1000, path: "Talk/photo1.jpg", link: "https://cloud.example.com/f/301", mimetype: "image/jpeg" },
-        file1: { type: "file", id: "302", name: "photo2.jpg", size: 2000, path: "Talk/photo2.jpg", link: "https://cloud.example.com/f/302", mimetype: "image/jpeg" }
-      }
-    }), "");
+    const r = processContent(
+      JSON.stringify({
+        message: "{file0} and {file1}",
+        parameters: {
+          file0: {
+            type: "file",
+            id: "301",
+            name: "photo1.jpg",
+            size: 1000,
+            path: "Talk/photo1.jpg",
+            link: "https://cloud.example.com/f/301",
+            mimetype: "image/jpeg",
+          },
+          file1: {
+            type: "file",
+            id: "302",
+            name: "photo2.jpg",
+            size: 2000,
+            path: "Talk/photo2.jpg",
+            link: "https://cloud.example.com/f/302",
+            mimetype: "image/jpeg",
+          },
+        },
+      }),
+      "",
+    );
     expect(r.text).toBe("photo1.jpg and photo2.jpg");
     expect(r.fileParameters).toHaveLength(2);
   });
@@ -132,10 +216,13 @@ describe("processContent (simulates payloadToInboundMessage)", () => {
   });
 
   it("non-file parameter types (mentions) — no fileParameters", () => {
-    const r = processContent(JSON.stringify({
-      message: "Hello {mention-user1}",
-      parameters: { "mention-user1": { type: "user", id: "alice", name: "Alice" } }
-    }), "");
+    const r = processContent(
+      JSON.stringify({
+        message: "Hello {mention-user1}",
+        parameters: { "mention-user1": { type: "user", id: "alice", name: "Alice" } },
+      }),
+      "",
+    );
     expect(r.text).toBe("Hello Alice");
     expect(r.fileParameters).toBeUndefined();
   });
@@ -144,14 +231,28 @@ describe("processContent (simulates payloadToInboundMessage)", () => {
 describe("real-world NC Talk payloads", () => {
   it("handles actual file+mention message from our NC Talk (msg 5862)", () => {
     // Real-world style payload with file + mention parameters
-    const r = processContent(JSON.stringify({
-      message: "{mention-user1} check out this shared file.",
-      parameters: {
-        actor: { type: "user", id: "alice", name: "Alice", "mention-id": "alice" },
-        file: { type: "file", id: "12345", name: "shared-photo.jpg", size: "2000000", path: "Talk/shared-photo.jpg", link: "https://cloud.example.com/index.php/f/122459", mimetype: "image/jpeg", "preview-available": "yes", width: "3024", height: "4032" },
-        "mention-user1": { type: "user", id: "bot-user", name: "Bot", "mention-id": "bot-user" }
-      }
-    }), "");
+    const r = processContent(
+      JSON.stringify({
+        message: "{mention-user1} check out this shared file.",
+        parameters: {
+          actor: { type: "user", id: "alice", name: "Alice", "mention-id": "alice" },
+          file: {
+            type: "file",
+            id: "12345",
+            name: "shared-photo.jpg",
+            size: "2000000",
+            path: "Talk/shared-photo.jpg",
+            link: "https://cloud.example.com/index.php/f/122459",
+            mimetype: "image/jpeg",
+            "preview-available": "yes",
+            width: "3024",
+            height: "4032",
+          },
+          "mention-user1": { type: "user", id: "bot-user", name: "Bot", "mention-id": "bot-user" },
+        },
+      }),
+      "",
+    );
     expect(r.text).toBe("Bot check out this shared file.");
     expect(r.fileParameters).toHaveLength(1);
     expect(r.fileParameters![0].name).toBe("shared-photo.jpg");
@@ -161,30 +262,56 @@ describe("real-world NC Talk payloads", () => {
 
   it("constructs correct WebDAV URL for real file", () => {
     const url = buildFileDownloadUrl(
-      { type: "file", id: "12345", name: "shared-photo.jpg", path: "Talk/shared-photo.jpg", link: "https://cloud.example.com/index.php/f/122459", mimetype: "image/jpeg" },
+      {
+        type: "file",
+        id: "12345",
+        name: "shared-photo.jpg",
+        path: "Talk/shared-photo.jpg",
+        link: "https://cloud.example.com/index.php/f/122459",
+        mimetype: "image/jpeg",
+      },
       "https://cloud.example.com",
-      "bot-user"
+      "bot-user",
+    );
+    expect(url).toBe(
+      "https://cloud.example.com/remote.php/dav/files/bot-user/Talk/shared-photo.jpg",
     );
-    expect(url).toBe("https://cloud.example.com/remote.php/dav/files/bot-user/Talk/shared-photo.jpg");
   });
 });
 
 describe("buildFileDownloadUrl", () => {
   it("constructs WebDAV URL when baseUrl + apiUser + path available", () => {
-    const url = buildFileDownloadUrl({ type: "file", id: "1", name: "test.jpg", path: "Talk/test.jpg" }, "https://cloud.example.com", "bot-user");
+    const url = buildFileDownloadUrl(
+      { type: "file", id: "1", name: "test.jpg", path: "Talk/test.jpg" },
+      "https://cloud.example.com",
+      "bot-user",
+    );
     expect(url).toBe("https://cloud.example.com/remote.php/dav/files/bot-user/Talk/test.jpg");
   });
 
   it("encodes special characters in file path segments", () => {
     const url = buildFileDownloadUrl(
       { type: "file", id: "1", name: "photo (3).png", path: "Talk/photo (3).png" },
-      "https://cloud.example.com", "bot-user"
+      "https://cloud.example.com",
+      "bot-user",
+    );
+    expect(url).toBe(
+      "https://cloud.example.com/remote.php/dav/files/bot-user/Talk/photo%20(3).png",
     );
-    expect(url).toBe("https://cloud.example.com/remote.php/dav/files/bot-user/Talk/photo%20(3).png");
   });
 
   it("falls back to link when apiUser missing", () => {
-    const url = buildFileDownloadUrl({ type: "file", id: "1", name: "test.jpg", path: "Talk/test.jpg", link: "https://cloud.example.com/f/1" }, "https://cloud.example.com", undefined);
+    const url = buildFileDownloadUrl(
+      {
+        type: "file",
+        id: "1",
+        name: "test.jpg",
+        path: "Talk/test.jpg",
+        link: "https://cloud.example.com/f/1",
+      },
+      "https://cloud.example.com",
+      undefined,
+    );
     expect(url).toBe("https://cloud.example.com/f/1");
   });
 
@@ -0,0 +1,215 @@
+/**
+ * Helpers for Nextcloud Talk rich object messages (`{file}`, `{mention-user1}`, ...).
+ * Shared by the webhook payload parser and the chat API poller.
+ */
+
+import { isNextcloudTalkMentionObject } from "./mentions.js";
+import type {
+  NextcloudTalkInboundMessage,
+  NextcloudTalkRichContent,
+  NextcloudTalkRichObject,
+  NextcloudTalkRichObjectParameter,
+} from "./types.js";
+
+/**
+ * Parse the JSON-encoded rich content from object.content.
+ * Returns null if parsing fails or the content is not valid rich content.
+ */
+export function parseRichContent(content: string): NextcloudTalkRichContent | null {
+  try {
+    const parsed = JSON.parse(content);
+    if (typeof parsed !== "object" || parsed === null || typeof parsed.message !== "string") {
+      return null;
+    }
+    return parsed as NextcloudTalkRichContent;
+  } catch {
+    return null;
+  }
+}
+
+function optionalString(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim()) {
+    return value;
+  }
+  return typeof value === "number" ? String(value) : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? Number.parseFloat(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/** Coordinates from explicit fields, or from a `geo:lat,lon` id. */
+function resolveGeoCoordinates(param: NextcloudTalkRichObjectParameter) {
+  const latitude = optionalNumber(param.latitude);
+  const longitude = optionalNumber(param.longitude);
+  if (latitude !== undefined && longitude !== undefined) {
+    return { latitude, longitude };
+  }
+  const match = /^geo:(-?[\d.]+),(-?[\d.]+)/.exec(String(param.id ?? ""));
+  return match ? { latitude: Number(match[1]), longitude: Number(match[2]) } : {};
+}
+
+/** Normalize a raw rich object parameter into the typed model. */
+export function toNextcloudTalkRichObject(
+  key: string,
+  param: NextcloudTalkRichObjectParameter,
+): NextcloudTalkRichObject {
+  const id = String(param.id ?? "");
+  const name = String(param.name ?? "");
+  switch (param.type) {
+    case "file":
+      return {
+        kind: "file",
+        key,
+        id,
+        name,
+        path: optionalString(param.path),
+        link: optionalString(param.link),
+        mimetype: optionalString(param.mimetype),
+        size: optionalNumber(param.size),
+        previewAvailable: param["preview-available"] === "yes",
+      };
+    case "user":
+      return { kind: "user", key, id, name, server: optionalString(param.server) };
+    case "guest":
+      return { kind: "guest", key, id, name };
+    case "user-group":
+    case "group":
+      return { kind: "group", key, id, name };
+    case "circle":
+    case "team":
+      return { kind: "team", key, id, name, link: optionalString(param.link) };
+    case "email":
+      return { kind: "email", key, id, name };
+    case "call":
+      return {
+        kind: "call",
+        key,
+        roomToken: id,
+        name,
+        callType: optionalString(param["call-type"]),
+      };
+    case "talk-poll":
+      return { kind: "poll", key, pollId: id, question: name };
+    case "deck-card":
+      return {
+        kind: "deck-card",
+        key,
+        cardId: id,
+        name,
+        board: optionalString(param.boardname),
+        boardId: optionalString(param.board),
+        stack: optionalString(param.stackname),
+        stackId: optionalString(param.stack),
+        link: optionalString(param.link),
+      };
+    case "geo-location":
+      return { kind: "geo-location", key, name, ...resolveGeoCoordinates(param) };
+    case "calendar-event":
+      return { kind: "calendar-event", key, id, name, link: optionalString(param.link) };
+    default:
+      return { kind: "unknown", key, type: String(param.type ?? ""), id, name };
+  }
+}
+
+/** Agent-facing text for a rich object placeholder. */
+export function renderNextcloudTalkRichObject(object: NextcloudTalkRichObject): string {
+  switch (object.kind) {
+    case "poll":
+      return `[Poll #${object.pollId}: "${object.question}"]`;
+    case "deck-card": {
+      const where = [object.board, object.stack].filter(Boolean).join(" / ");
+      return (
+        `[Deck card "${object.name}"` +
+        (where ? ` in ${where}` : "") +
+        (object.link ? ` (${object.link})` : "") +
+        "]"
+      );
+    }
+    case "geo-location": {
+      const coordinates =
+        object.latitude !== undefined && object.longitude !== undefined
+          ? ` (${object.latitude}, ${object.longitude})`
+          : "";
+      return `[Location: ${object.name || "shared location"}${coordinates}]`;
+    }
+    case "calendar-event":
+      return `[Calendar event "${object.name}"${object.link ? ` (${object.link})` : ""}]`;
+    default:
+      return object.name;
+  }
+}
+
+/**
+ * Agent-facing line with the structured fields of shared objects (polls, deck cards,
+ * locations, events, unknown types), or "" when there are none. Files and mentions
+ * are covered by the attachment and mention notes.
+ */
+export function formatNextcloudTalkRichObjectsNote(
+  richObjects: NextcloudTalkRichObject[] | undefined,
+): string {
+  const shared = (richObjects ?? [])
+    .filter((object) =>
+      ["poll", "deck-card", "geo-location", "calendar-event", "unknown"].includes(object.kind),
+    )
+    .map(({ key: _key, ...object }) => object);
+  return shared.length > 0 ? `[Shared objects: ${JSON.stringify(shared)}]` : "";
+}
+
+/** Typed rich objects referenced by a message, in parameter order. */
+export function extractRichObjects(
+  parameters: Record<string, NextcloudTalkRichObjectParameter> | undefined,
+): NextcloudTalkRichObject[] {
+  if (!parameters) return [];
+  return Object.entries(parameters).map(([key, param]) => toNextcloudTalkRichObject(key, param));
+}
+
+/**
+ * Resolve rich content message text by replacing parameter placeholders
+ * (e.g. `{file}`) with each object's rendered text. Placeholders of objects matching
+ * `omit` are left out.
+ */
+export function resolveRichMessageText(
+  message: string,
+  parameters: Record<string, NextcloudTalkRichObjectParameter> | undefined,
+  omit?: (object: NextcloudTalkRichObject) => boolean,
+): string {
+  if (!parameters) return message;
+  return message.replace(/\{([\w-]+)\}/g, (match, key: string) => {
+    const param = parameters[key];
+    if (!param) return match;
+    const object = toNextcloudTalkRichObject(key, param);
+    return omit?.(object) ? "" : renderNextcloudTalkRichObject(object);
+  });
+}
+
+/**
+ * Extract file-type parameters from rich content.
+ */
+export function extractFileParameters(
+  parameters: Record<string, NextcloudTalkRichObjectParameter> | undefined,
+): NextcloudTalkRichObjectParameter[] {
+  if (!parameters) return [];
+  return Object.values(parameters).filter((p) => p.type === "file");
+}
+
+/** Text plus structured fields for an inbound message built from rich content. */
+export function resolveRichMessageFields(
+  message: string,
+  parameters: Record<string, NextcloudTalkRichObjectParameter> | undefined,
+): Pick<
+  NextcloudTalkInboundMessage,
+  "text" | "mentionFreeText" | "fileParameters" | "richObjects"
+> {
+  const fileParameters = extractFileParameters(parameters);
+  const richObjects = extractRichObjects(parameters);
+  return {
+    text: resolveRichMessageText(message, parameters),
+    mentionFreeText: richObjects.some(isNextcloudTalkMentionObject)
+      ? resolveRichMessageText(message, parameters, isNextcloudTalkMentionObject)
+      : undefined,
+    fileParameters: fileParameters.length > 0 ? fileParameters : undefined,
+    richObjects: richObjects.length > 0 ? richObjects : undefined,
+  };
+}
@@ -1,6 +1,8 @@
 import { readFileSync } from "node:fs";
 import type { RuntimeEnv } from "openclaw/plugin-sdk";
 import type { ResolvedNextcloudTalkAccount } from "./accounts.js";
+import { recordNextcloudTalkRoomLookupResult } from "./diagnostics.js";
+import { recordNextcloudTalkCacheLookup } from "./metrics.js";
 
 const ROOM_CACHE_TTL_MS = 5 * 60 * 1000;
 const ROOM_CACHE_ERROR_TTL_MS = 30 * 1000;
@@ -64,12 +66,15 @@ export async function resolveNextcloudTalkRoomKind(params: {
   if (cached) {
     const age = Date.now() - cached.fetchedAt;
     if (cached.kind && age < ROOM_CACHE_TTL_MS) {
+      recordNextcloudTalkCacheLookup(account.accountId, "room_info", true);
       return cached.kind;
     }
     if (cached.error && age < ROOM_CACHE_ERROR_TTL_MS) {
+      recordNextcloudTalkCacheLookup(account.accountId, "room_info", true);
       return undefined;
     }
   }
+  recordNextcloudTalkCacheLookup(account.accountId, "room_info", false);
 
   const apiUser = account.config.apiUser?.trim();
   const apiPassword = readApiPassword({
@@ -104,6 +109,7 @@ export async function resolveNextcloudTalkRoomKind(params: {
         error: `status:${response.status}`,
       });
       runtime?.log?.(`nextcloud-talk: room lookup failed (${response.status}) token=${roomToken}`);
+      recordNextcloudTalkRoomLookupResult(account.accountId, `status ${response.status}`);
       return undefined;
     }
 
@@ -113,6 +119,7 @@ export async function resolveNextcloudTalkRoomKind(params: {
     const type = coerceRoomType(payload.ocs?.data?.type);
     const kind = resolveRoomKindFromType(type);
     roomCache.set(key, { fetchedAt: Date.now(), kind });
+    recordNextcloudTalkRoomLookupResult(account.accountId);
     return kind;
   } catch (err) {
     roomCache.set(key, {
@@ -120,6 +127,7 @@ export async function resolveNextcloudTalkRoomKind(params: {
       error: err instanceof Error ? err.message : String(err),
     });
     runtime?.error?.(`nextcloud-talk: room lookup error: ${String(err)}`);
+    recordNextcloudTalkRoomLookupResult(account.accountId, err);
     return undefined;
   }
 }
@@ -0,0 +1,192 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { OpenClawConfig, PluginRuntime } from "openclaw/plugin-sdk";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resetNextcloudTalkLoopGuard } from "./loop-guard.js";
+import { setNextcloudTalkRuntime } from "./runtime.js";
+import {
+  buildNextcloudTalkReferenceId,
+  deleteMessageNextcloudTalk,
+  sendMediaNextcloudTalk,
+  sendMessageNextcloudTalk,
+} from "./send.js";
+import type {
+  CoreConfig,
+  NextcloudTalkAccountConfig,
+  NextcloudTalkRetryConfig,
+  NextcloudTalkRoomConfig,
+} from "./types.js";
+
+/** The runtime members sends use. */
+type SendRuntimeStub = {
+  config: Pick<PluginRuntime["config"], "loadConfig">;
+  channel: {
+    text: Pick<
+      PluginRuntime["channel"]["text"],
+      "resolveMarkdownTableMode" | "convertMarkdownTables"
+    >;
+    activity: Pick<PluginRuntime["channel"]["activity"], "record">;
+  };
+  state: Pick<PluginRuntime["state"], "resolveStateDir">;
+  media: Pick<PluginRuntime["media"], "loadWebMedia">;
+};
+
+function useConfig(
+  rooms?: Record<string, NextcloudTalkRoomConfig>,
+  retry: NextcloudTalkRetryConfig = { attempts: 1 },
+  account: Partial<NextcloudTalkAccountConfig> = {},
+) {
+  const stateDir = mkdtempSync(join(tmpdir(), "nc-talk-send-"));
+  const cfg: CoreConfig = {
+    channels: {
+      "nextcloud-talk": {
+        baseUrl: "https://cloud.example.com",
+        botSecret: "secret",
+        retry,
+        rooms,
+        ...account,
+      },
+    },
+  };
+  const runtime: SendRuntimeStub = {
+    config: { loadConfig: () => cfg as OpenClawConfig },
+    channel: {
+      text: {
+        resolveMarkdownTableMode: () => "off",
+        convertMarkdownTables: (text) => text,
+      },
+      activity: { record: () => undefined },
+    },
+    state: { resolveStateDir: () => stateDir },
+    media: {
+      loadWebMedia: async () => ({
+        buffer: Buffer.from("png"),
+        contentType: "image/png",
+        fileName: "chart.png",
+        kind: "image",
+      }),
+    },
+  };
+  setNextcloudTalkRuntime(runtime as PluginRuntime);
+}
+
+function mockSendFetch(messageId: number) {
+  const fetchMock = vi.fn<typeof fetch>(
+    async () => new Response(JSON.stringify({ ocs: { data: { id: messageId } } }), { status: 201 }),
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  const sentBody = (call: number) => JSON.parse(String(fetchMock.mock.calls[call][1]?.body));
+  return { fetchMock, sentBody };
+}
+
+describe("nextcloud-talk send", () => {
+  afterEach(async () => {
+    await resetNextcloudTalkLoopGuard();
+    vi.unstubAllGlobals();
+  });
+
+  it("derives a stable sha256 reference id per session, turn and chunk", () => {
+    const first = buildNextcloudTalkReferenceId({
+      sessionKey: "agent:main:nextcloud-talk:group:room123",
+      turnId: "42",
+      chunkIndex: 0,
+    });
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      buildNextcloudTalkReferenceId({
+        sessionKey: "agent:main:nextcloud-talk:group:room123",
+        turnId: "42",
+        chunkIndex: 0,
+      }),
+    ).toBe(first);
+    expect(
+      buildNextcloudTalkReferenceId({
+        sessionKey: "agent:main:nextcloud-talk:group:room123",
+        turnId: "42",
+        chunkIndex: 1,
+      }),
+    ).not.toBe(first);
+  });
+
+  it("deletes only messages this account sent, also after a restart", async () => {
+    useConfig();
+    const { fetchMock } = mockSendFetch(77);
+
+    await expect(deleteMessageNextcloudTalk("room123", "77")).rejects.toThrow(
+      /not sent by this account/,
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await sendMessageNextcloudTalk("room123", "Oops");
+    // A restart: only what reached the state dir is known.
+    await resetNextcloudTalkLoopGuard();
+
+    await expect(deleteMessageNextcloudTalk("nextcloud-talk:room123", "77")).resolves.toEqual({
+      messageId: "77",
+      roomToken: "room123",
+      attempts: 1,
+    });
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe(
+      "https://cloud.example.com/ocs/v2.php/apps/spreed/api/v1/bot/room123/message/77",
+    );
+    expect(init?.method).toBe("DELETE");
+    await expect(deleteMessageNextcloudTalk("room123", "77")).rejects.toThrow(
+      /not sent by this account/,
+    );
+  });
+
+  it("retries a send after a gateway error with the same reference id", async () => {
+    useConfig(undefined, { attempts: 2, minDelayMs: 1, maxDelayMs: 1 });
+    const { fetchMock, sentBody } = mockSendFetch(12);
+    fetchMock.mockResolvedValueOnce(new Response("", { status: 502 }));
+
+    const result = await sendMessageNextcloudTalk("room123", "Hello");
+    expect(result).toMatchObject({ messageId: "12", attempts: 2 });
+    expect(sentBody(1).referenceId).toBe(sentBody(0).referenceId);
+  });
+
+  it("returns the chat message id of a media share", async () => {
+    useConfig(undefined, undefined, { apiUser: "bot", apiPassword: "pw" });
+    let uploadedName: string | undefined;
+    const fetchMock = vi.fn<typeof fetch>(async (input, init) => {
+      const url = String(input);
+      if (init?.method === "PUT") {
+        uploadedName = decodeURIComponent(url.split("/").pop() ?? "");
+      }
+      if (url.includes("/api/v1/chat/")) {
+        const file = { type: "file", id: "9", name: uploadedName };
+        const chat = [
+          { id: 40, actorId: "alice", messageParameters: [] },
+          { id: 41, actorId: "bot", timestamp: 1_700_000_000, messageParameters: { file } },
+        ];
+        return new Response(JSON.stringify({ ocs: { data: chat } }), { status: 200 });
+      }
+      return new Response(JSON.stringify({ ocs: { data: { id: 5 } } }), { status: 201 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await sendMediaNextcloudTalk("room123", "Chart", "https://example.com/c.png");
+    expect(result).toEqual({ messageId: "41", roomToken: "room123", timestamp: 1_700_000_000 });
+    await expect(deleteMessageNextcloudTalk("room123", "41")).resolves.toMatchObject({
+      messageId: "41",
+    });
+  });
+
+  it("sends silently when the room silences that kind of message", async () => {
+    useConfig({ room123: { silent: ["proactive"] } });
+    const { sentBody } = mockSendFetch(9);
+
+    await sendMessageNextcloudTalk("room123", "Nightly report", { silentKind: "proactive" });
+    await sendMessageNextcloudTalk("room123", "Answer", { silentKind: "reply" });
+    await sendMessageNextcloudTalk("room123", "Explicit", {
+      silentKind: "proactive",
+      silent: false,
+    });
+
+    expect(sentBody(0).silent).toBe(true);
+    expect(sentBody(1).silent).toBeUndefined();
+    expect(sentBody(2).silent).toBeUndefined();
+  });
+});
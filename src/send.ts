@@ -1,16 +1,60 @@
-import { resolveNextcloudTalkAccount } from "./accounts.js";
+import { createHash, randomBytes } from "node:crypto";
+import {
+  type ResolvedNextcloudTalkAccount,
+  resolveNextcloudTalkAccount,
+  resolveNextcloudTalkApiCredentials,
+} from "./accounts.js";
+import { resolveNextcloudTalkMediaMaxBytes } from "./attachments.js";
+import { fetchNextcloudTalkChatMessages, type NextcloudTalkChatMessage } from "./chat-api.js";
+import { recordNextcloudTalkSendResult } from "./diagnostics.js";
+import {
+  forgetNextcloudTalkOwnMessage,
+  isNextcloudTalkOwnMessage,
+  recordNextcloudTalkOwnMessage,
+  recordNextcloudTalkOwnReference,
+  recordNextcloudTalkOwnShare,
+} from "./loop-guard.js";
+import { recordNextcloudTalkSend } from "./metrics.js";
+import { resolveNextcloudTalkRoomMatch, resolveNextcloudTalkSilent } from "./policy.js";
+import { fetchWithNextcloudTalkRetry } from "./retry.js";
 import { getNextcloudTalkRuntime } from "./runtime.js";
 import { generateNextcloudTalkSignature } from "./signature.js";
-import type { CoreConfig, NextcloudTalkSendResult } from "./types.js";
+import {
+  buildNextcloudTalkUploadName,
+  resolveNextcloudTalkUploadFolder,
+  shareNextcloudTalkFileToRoom,
+  uploadNextcloudTalkFile,
+} from "./upload.js";
+import type { CoreConfig, NextcloudTalkSendResult, NextcloudTalkSilentKind } from "./types.js";
 
 type NextcloudTalkSendOpts = {
   baseUrl?: string;
   secret?: string;
   accountId?: string;
   replyTo?: string;
+  /** Talk `referenceId`; a random one is generated when omitted. Reused by retries. */
+  referenceId?: string;
+  /** Post without notifying room members. Overrides the room's `silent` config. */
+  silent?: boolean;
+  /** Kind of message, for the room's `silent` config when `silent` is unset. */
+  silentKind?: NextcloudTalkSilentKind;
   verbose?: boolean;
 };
 
+/**
+ * Deterministic reference id (a sha256 hex digest, as Talk expects) for one chunk of
+ * a turn's reply, so re-sending the same chunk carries the same id.
+ */
+export function buildNextcloudTalkReferenceId(params: {
+  sessionKey: string;
+  turnId: string;
+  chunkIndex: number;
+}): string {
+  return createHash("sha256")
+    .update(`${params.sessionKey}\n${params.turnId}\n${params.chunkIndex}`)
+    .digest("hex");
+}
+
 function resolveCredentials(
   explicit: { baseUrl?: string; secret?: string },
   account: { baseUrl: string; secret: string; accountId: string },
@@ -32,6 +76,25 @@ function resolveCredentials(
   return { baseUrl, secret };
 }
 
+function resolveSilent(
+  account: ResolvedNextcloudTalkAccount,
+  roomToken: string,
+  opts: Pick<NextcloudTalkSendOpts, "silent" | "silentKind">,
+): boolean {
+  if (typeof opts.silent === "boolean") {
+    return opts.silent;
+  }
+  if (!opts.silentKind) {
+    return false;
+  }
+  const match = resolveNextcloudTalkRoomMatch({ rooms: account.config.rooms, roomToken });
+  return resolveNextcloudTalkSilent({
+    roomConfig: match.roomConfig,
+    wildcardConfig: match.wildcardConfig,
+    kind: opts.silentKind,
+  });
+}
+
 function normalizeRoomToken(to: string): string {
   const trimmed = to.trim();
   if (!trimmed) {
@@ -85,12 +148,19 @@ export async function sendMessageNextcloudTalk(
     tableMode,
   );
 
+  const referenceId = opts.referenceId ?? randomBytes(32).toString("hex");
   const body: Record<string, unknown> = {
     message,
+    referenceId,
   };
   if (opts.replyTo) {
     body.replyTo = opts.replyTo;
   }
+  if (resolveSilent(account, roomToken, opts)) {
+    body.silent = true;
+  }
+  // Recorded up front: the webhook echo can arrive before the send returns.
+  recordNextcloudTalkOwnReference(account.accountId, referenceId);
   const bodyStr = JSON.stringify(body);
 
   // Nextcloud Talk verifies signature against the extracted message text,
@@ -104,16 +174,31 @@ export async function sendMessageNextcloudTalk(
 
   const url = `${baseUrl}/ocs/v2.php/apps/spreed/api/v1/bot/${roomToken}/message`;
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "OCS-APIRequest": "true",
-      "X-Nextcloud-Talk-Bot-Random": random,
-      "X-Nextcloud-Talk-Bot-Signature": signature,
-    },
-    body: bodyStr,
-  });
+  let response: Response;
+  let attempts: number;
+  try {
+    ({ response, attempts } = await fetchWithNextcloudTalkRetry(
+      () =>
+        fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "OCS-APIRequest": "true",
+            "X-Nextcloud-Talk-Bot-Random": random,
+            "X-Nextcloud-Talk-Bot-Signature": signature,
+          },
+          body: bodyStr,
+        }),
+      account.config.retry,
+      // Talk drops a repeated referenceId, so a send stored before a 502/504 is not doubled.
+      { idempotent: true },
+    ));
+  } catch (err) {
+    recordNextcloudTalkSend(account.accountId, "error");
+    recordNextcloudTalkSendResult(account.accountId, err);
+    throw err;
+  }
+  recordNextcloudTalkSend(account.accountId, response.status);
 
   if (!response.ok) {
     const errorBody = await response.text().catch(() => "");
@@ -128,12 +213,17 @@ export async function sendMessageNextcloudTalk(
       errorMsg = "Nextcloud Talk: forbidden - bot may not have permission in this room";
     } else if (status === 404) {
       errorMsg = `Nextcloud Talk: room not found (token=${roomToken})`;
+    } else if (status === 429) {
+      errorMsg = `Nextcloud Talk: rate limited after ${attempts} attempt(s)`;
     } else if (errorBody) {
       errorMsg = `Nextcloud Talk send failed: ${errorBody}`;
     }
 
-    throw new Error(errorMsg);
+    const error = new Error(errorMsg);
+    recordNextcloudTalkSendResult(account.accountId, error);
+    throw error;
   }
+  recordNextcloudTalkSendResult(account.accountId);
 
   let messageId = "unknown";
   let timestamp: number | undefined;
@@ -159,6 +249,7 @@ export async function sendMessageNextcloudTalk(
   if (opts.verbose) {
     console.log(`[nextcloud-talk] Sent message ${messageId} to room ${roomToken}`);
   }
+  recordNextcloudTalkOwnMessage({ accountId: account.accountId, roomToken, messageId });
 
   getNextcloudTalkRuntime().channel.activity.record({
     channel: "nextcloud-talk",
@@ -166,7 +257,261 @@ export async function sendMessageNextcloudTalk(
     direction: "outbound",
   });
 
-  return { messageId, roomToken, timestamp };
+  return { messageId, roomToken, timestamp, attempts };
+}
+
+/** Statuses meaning the server cannot edit bot messages (older Talk versions). */
+const EDIT_UNSUPPORTED_STATUSES = new Set([404, 405, 501]);
+
+/** Whether an error from `editMessageNextcloudTalk` means the server cannot edit bot messages. */
+export function isNextcloudTalkEditUnsupportedError(err: unknown): boolean {
+  return err instanceof Error && "editUnsupported" in err && err.editUnsupported === true;
+}
+
+/**
+ * Replace the text of a message the bot posted earlier. Errors raised because the
+ * server does not support bot edits have `editUnsupported` set.
+ */
+export async function editMessageNextcloudTalk(
+  to: string,
+  messageId: string,
+  text: string,
+  opts: Omit<NextcloudTalkSendOpts, "replyTo" | "referenceId" | "silent" | "silentKind"> = {},
+): Promise<NextcloudTalkSendResult> {
+  const cfg = getNextcloudTalkRuntime().config.loadConfig() as CoreConfig;
+  const account = resolveNextcloudTalkAccount({
+    cfg,
+    accountId: opts.accountId,
+  });
+  const { baseUrl, secret } = resolveCredentials(
+    { baseUrl: opts.baseUrl, secret: opts.secret },
+    account,
+  );
+  const roomToken = normalizeRoomToken(to);
+  if (!text?.trim()) {
+    throw new Error("Message must be non-empty for Nextcloud Talk edits");
+  }
+
+  const tableMode = getNextcloudTalkRuntime().channel.text.resolveMarkdownTableMode({
+    cfg,
+    channel: "nextcloud-talk",
+    accountId: account.accountId,
+  });
+  const message = getNextcloudTalkRuntime().channel.text.convertMarkdownTables(
+    text.trim(),
+    tableMode,
+  );
+  // Signed like a send: over the message text only.
+  const { random, signature } = generateNextcloudTalkSignature({ body: message, secret });
+  const url = `${baseUrl}/ocs/v2.php/apps/spreed/api/v1/bot/${roomToken}/message/${messageId}`;
+
+  const { response, attempts } = await fetchWithNextcloudTalkRetry(
+    () =>
+      fetch(url, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "OCS-APIRequest": "true",
+          "X-Nextcloud-Talk-Bot-Random": random,
+          "X-Nextcloud-Talk-Bot-Signature": signature,
+        },
+        body: JSON.stringify({ message }),
+      }),
+    account.config.retry,
+    { idempotent: true },
+  );
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => "");
+    const error = new Error(
+      `Nextcloud Talk edit failed: ${response.status} ${errorBody}`.trim(),
+    ) as Error & { editUnsupported?: boolean };
+    error.editUnsupported = EDIT_UNSUPPORTED_STATUSES.has(response.status);
+    throw error;
+  }
+  return { messageId, roomToken, attempts };
+}
+
+/**
+ * Delete a message this account posted. Only ids recorded by the account's own sends
+ * (the most recent ones, kept in the state dir across restarts) are accepted, so the
+ * bot can never retract someone else's message.
+ */
+export async function deleteMessageNextcloudTalk(
+  to: string,
+  messageId: string,
+  opts: Omit<NextcloudTalkSendOpts, "replyTo" | "referenceId" | "silent" | "silentKind"> = {},
+): Promise<NextcloudTalkSendResult> {
+  const cfg = getNextcloudTalkRuntime().config.loadConfig() as CoreConfig;
+  const account = resolveNextcloudTalkAccount({
+    cfg,
+    accountId: opts.accountId,
+  });
+  const { baseUrl, secret } = resolveCredentials(
+    { baseUrl: opts.baseUrl, secret: opts.secret },
+    account,
+  );
+  const roomToken = normalizeRoomToken(to);
+  const id = messageId?.trim();
+  if (!id) {
+    throw new Error("Message id is required for Nextcloud Talk deletes");
+  }
+  if (!isNextcloudTalkOwnMessage({ accountId: account.accountId, roomToken, messageId: id })) {
+    throw new Error(
+      `Nextcloud Talk: message ${id} in room ${roomToken} was not sent by this account`,
+    );
+  }
+
+  // There is no body to sign, so the signature covers the message id.
+  const { random, signature } = generateNextcloudTalkSignature({ body: id, secret });
+  const url = `${baseUrl}/ocs/v2.php/apps/spreed/api/v1/bot/${roomToken}/message/${id}`;
+
+  const { response, attempts } = await fetchWithNextcloudTalkRetry(
+    () =>
+      fetch(url, {
+        method: "DELETE",
+        headers: {
+          "OCS-APIRequest": "true",
+          "X-Nextcloud-Talk-Bot-Random": random,
+          "X-Nextcloud-Talk-Bot-Signature": signature,
+        },
+      }),
+    account.config.retry,
+    { idempotent: true },
+  );
+
+  if (response.ok || response.status === 404) {
+    forgetNextcloudTalkOwnMessage({ accountId: account.accountId, roomToken, messageId: id });
+  }
+  // A retry of a delete that went through before the gateway error finds nothing left.
+  const deletedOnRetry = response.status === 404 && attempts > 1;
+  if (!response.ok && !deletedOnRetry) {
+    const errorBody = await response.text().catch(() => "");
+    if (response.status === 404) {
+      throw new Error(`Nextcloud Talk: message ${id} not found or already deleted`);
+    }
+    throw new Error(`Nextcloud Talk delete failed: ${response.status} ${errorBody}`.trim());
+  }
+  if (opts.verbose) {
+    console.log(`[nextcloud-talk] Deleted message ${id} in room ${roomToken}`);
+  }
+  return { messageId: id, roomToken, attempts };
+}
+
+const SHARE_LOOKUP_LIMIT = 20;
+
+/**
+ * The share API does not return the chat message it posts; find it among the room's
+ * latest messages as the API user's share of the (uniquely named) uploaded file.
+ */
+async function findShareMessage(params: {
+  baseUrl: string;
+  credentials: { apiUser: string; apiPassword: string };
+  roomToken: string;
+  fileName: string;
+}): Promise<NextcloudTalkChatMessage | undefined> {
+  const { credentials, fileName } = params;
+  const messages = await fetchNextcloudTalkChatMessages({
+    baseUrl: params.baseUrl,
+    ...credentials,
+    roomToken: params.roomToken,
+    lookIntoFuture: false,
+    limit: SHARE_LOOKUP_LIMIT,
+  });
+  return messages.findLast((message) => {
+    const parameters = Array.isArray(message.messageParameters)
+      ? undefined
+      : message.messageParameters;
+    return message.actorId === credentials.apiUser && parameters?.file?.name === fileName;
+  });
+}
+
+/**
+ * Send media as a real file share: load it (honouring `mediaMaxMb`), upload it to the
+ * API user's storage and share it into the room with `text` as the caption. Falls back
+ * to a text message with an `Attachment: <url>` line when the account has no API
+ * credentials or the upload fails.
+ */
+export async function sendMediaNextcloudTalk(
+  to: string,
+  text: string,
+  mediaUrl: string,
+  opts: NextcloudTalkSendOpts = {},
+): Promise<NextcloudTalkSendResult> {
+  const core = getNextcloudTalkRuntime();
+  const cfg = core.config.loadConfig() as CoreConfig;
+  const account = resolveNextcloudTalkAccount({
+    cfg,
+    accountId: opts.accountId,
+  });
+  const roomToken = normalizeRoomToken(to);
+  const credentials = resolveNextcloudTalkApiCredentials(account);
+  const baseUrl = opts.baseUrl?.trim() ?? account.baseUrl;
+
+  if (credentials && baseUrl) {
+    let shared = false;
+    try {
+      const maxBytes = resolveNextcloudTalkMediaMaxBytes(account);
+      const media = await core.media.loadWebMedia(mediaUrl, maxBytes);
+      if (media.buffer.byteLength > maxBytes) {
+        throw new Error(`media exceeds mediaMaxMb (${media.buffer.byteLength} bytes)`);
+      }
+      const fileName = buildNextcloudTalkUploadName(media.fileName ?? mediaUrl);
+      const path = await uploadNextcloudTalkFile({
+        baseUrl,
+        credentials,
+        folder: resolveNextcloudTalkUploadFolder(account.config.mediaUploadFolder),
+        fileName,
+        buffer: media.buffer,
+        contentType: media.contentType,
+      });
+      // Recorded up front: the share's webhook can arrive before the call returns.
+      recordNextcloudTalkOwnShare({ accountId: account.accountId, roomToken, fileName });
+      await shareNextcloudTalkFileToRoom({
+        baseUrl,
+        credentials,
+        path,
+        roomToken,
+        caption: text,
+        replyTo: opts.replyTo,
+        silent: resolveSilent(account, roomToken, opts),
+      });
+      shared = true;
+      recordNextcloudTalkSendResult(account.accountId);
+      core.channel.activity.record({
+        channel: "nextcloud-talk",
+        accountId: account.accountId,
+        direction: "outbound",
+      });
+      if (opts.verbose) {
+        console.log(`[nextcloud-talk] Shared ${path} to room ${roomToken}`);
+      }
+      const posted = await findShareMessage({ baseUrl, credentials, roomToken, fileName });
+      if (!posted) {
+        return { messageId: "unknown", roomToken };
+      }
+      const messageId = String(posted.id);
+      recordNextcloudTalkOwnMessage({ accountId: account.accountId, roomToken, messageId });
+      return { messageId, roomToken, timestamp: posted.timestamp };
+    } catch (err) {
+      const logger = core.logging.getChildLogger({
+        channel: "nextcloud-talk",
+        accountId: account.accountId,
+      });
+      if (shared) {
+        // The file is in the room; only finding its message failed.
+        logger.warn(
+          `[nextcloud-talk:${account.accountId}] shared media to room ${roomToken} but could not find its message: ${String(err)}`,
+        );
+        return { messageId: "unknown", roomToken };
+      }
+      logger.warn(
+        `[nextcloud-talk:${account.accountId}] media upload to room ${roomToken} failed, sending link instead: ${String(err)}`,
+      );
+    }
+  }
+
+  return sendMessageNextcloudTalk(to, `${text}\n\nAttachment: ${mediaUrl}`.trim(), opts);
 }
 
 export async function sendReactionNextcloudTalk(
@@ -174,7 +519,7 @@ export async function sendReactionNextcloudTalk(
   messageId: string,
   reaction: string,
   opts: Omit<NextcloudTalkSendOpts, "replyTo"> = {},
-): Promise<{ ok: true }> {
+): Promise<{ ok: true; attempts: number }> {
   const cfg = getNextcloudTalkRuntime().config.loadConfig() as CoreConfig;
   const account = resolveNextcloudTalkAccount({
     cfg,
@@ -195,21 +540,26 @@ export async function sendReactionNextcloudTalk(
 
   const url = `${baseUrl}/ocs/v2.php/apps/spreed/api/v1/bot/${normalizedToken}/reaction/${messageId}`;
 
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "OCS-APIRequest": "true",
-      "X-Nextcloud-Talk-Bot-Random": random,
-      "X-Nextcloud-Talk-Bot-Signature": signature,
-    },
-    body,
-  });
+  const { response, attempts } = await fetchWithNextcloudTalkRetry(
+    () =>
+      fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "OCS-APIRequest": "true",
+          "X-Nextcloud-Talk-Bot-Random": random,
+          "X-Nextcloud-Talk-Bot-Signature": signature,
+        },
+        body,
+      }),
+    account.config.retry,
+    { idempotent: true },
+  );
 
   if (!response.ok) {
     const errorBody = await response.text().catch(() => "");
     throw new Error(`Nextcloud Talk reaction failed: ${response.status} ${errorBody}`.trim());
   }
 
-  return { ok: true };
+  return { ok: true, attempts };
 }
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { isNextcloudTalkBackendAllowed, verifyNextcloudTalkBearerToken } from "./signature.js";
+
+describe("nextcloud-talk signature", () => {
+  describe("isNextcloudTalkBackendAllowed", () => {
+    it("accepts the account base URL regardless of trailing slash and host case", () => {
+      expect(
+        isNextcloudTalkBackendAllowed({
+          backend: "https://Cloud.Example.com/",
+          baseUrl: "https://cloud.example.com",
+        }),
+      ).toBe(true);
+    });
+
+    it("accepts configured extra backends", () => {
+      expect(
+        isNextcloudTalkBackendAllowed({
+          backend: "https://other.example.com/",
+          baseUrl: "https://cloud.example.com",
+          allowedBackends: ["https://other.example.com"],
+        }),
+      ).toBe(true);
+    });
+
+    it("rejects other backends", () => {
+      expect(
+        isNextcloudTalkBackendAllowed({
+          backend: "https://evil.example.com/",
+          baseUrl: "https://cloud.example.com",
+        }),
+      ).toBe(false);
+    });
+
+    it("keeps subpath installs distinct", () => {
+      expect(
+        isNextcloudTalkBackendAllowed({
+          backend: "https://example.com/",
+          baseUrl: "https://example.com/nextcloud",
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe("verifyNextcloudTalkBearerToken", () => {
+    it("accepts only the configured token", () => {
+      const token = "metrics-secret";
+      expect(
+        verifyNextcloudTalkBearerToken({ authorization: "Bearer metrics-secret", token }),
+      ).toBe(true);
+      expect(verifyNextcloudTalkBearerToken({ authorization: "Bearer other", token })).toBe(false);
+      expect(verifyNextcloudTalkBearerToken({ authorization: "metrics-secret", token })).toBe(
+        false,
+      );
+      expect(verifyNextcloudTalkBearerToken({ authorization: undefined, token })).toBe(false);
+    });
+  });
+});
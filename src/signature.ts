@@ -5,6 +5,18 @@ const SIGNATURE_HEADER = "x-nextcloud-talk-signature";
 const RANDOM_HEADER = "x-nextcloud-talk-random";
 const BACKEND_HEADER = "x-nextcloud-talk-backend";
 
+/** Compare two strings in time that does not depend on where they differ. */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
 /**
  * Verify the HMAC-SHA256 signature of an incoming webhook request.
  * Signature is calculated as: HMAC-SHA256(random + body, secret)
@@ -24,14 +36,18 @@ export function verifyNextcloudTalkSignature(params: {
     .update(random + body)
     .digest("hex");
 
-  if (signature.length !== expected.length) {
-    return false;
-  }
-  let result = 0;
-  for (let i = 0; i < signature.length; i++) {
-    result |= signature.charCodeAt(i) ^ expected.charCodeAt(i);
-  }
-  return result === 0;
+  return safeEqual(signature, expected);
+}
+
+/**
+ * Check an `Authorization` header against a configured bearer token.
+ */
+export function verifyNextcloudTalkBearerToken(params: {
+  authorization: string | undefined;
+  token: string;
+}): boolean {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(params.authorization ?? "");
+  return Boolean(match && params.token && safeEqual(match[1], params.token));
 }
 
 /**
@@ -56,6 +72,39 @@ export function extractNextcloudTalkHeaders(
   return { signature, random, backend };
 }
 
+/**
+ * Normalize a Nextcloud server URL for comparison: lowercase scheme and host,
+ * no trailing slash. Falls back to a trimmed lowercase string for non-URLs.
+ */
+export function normalizeNextcloudTalkBackendUrl(url: string): string {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(trimmed);
+    return `${parsed.origin}${parsed.pathname}`.replace(/\/+$/, "");
+  } catch {
+    return trimmed.replace(/\/+$/, "").toLowerCase();
+  }
+}
+
+/**
+ * Check the X-Nextcloud-Talk-Backend header against the account's base URL and
+ * any extra allowed backends. Allows everything when neither is configured.
+ */
+export function isNextcloudTalkBackendAllowed(params: {
+  backend: string;
+  baseUrl?: string;
+  allowedBackends?: string[];
+}): boolean {
+  const allowed = [params.baseUrl ?? "", ...(params.allowedBackends ?? [])]
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map(normalizeNextcloudTalkBackendUrl);
+  if (allowed.length === 0) {
+    return true;
+  }
+  return allowed.includes(normalizeNextcloudTalkBackendUrl(params.backend));
+}
+
 /**
  * Generate signature headers for an outbound request to Nextcloud Talk.
  */
@@ -0,0 +1,71 @@
+/**
+ * Per-account state files under `<stateDir>/nextcloud-talk/<accountId>/` (cursors,
+ * pending messages, sent message ids, ...). Writes go to a temporary file that is
+ * renamed over the old one, so a crash never leaves a half-written file behind.
+ */
+
+import { readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { getNextcloudTalkRuntime } from "./runtime.js";
+
+const SAVE_DELAY_MS = 1_000;
+
+/** Path of a per-account state file under `<stateDir>/nextcloud-talk/<accountId>/`. */
+export function resolveNextcloudTalkStatePath(accountId: string, fileName: string): string {
+  const stateDir = getNextcloudTalkRuntime().state.resolveStateDir();
+  return join(stateDir, "nextcloud-talk", accountId, fileName);
+}
+
+/** Parsed contents of a state file, or undefined when it is missing or corrupt. */
+export function readNextcloudTalkStateFile<T>(filePath: string): Partial<T> | undefined {
+  try {
+    return JSON.parse(readFileSync(filePath, "utf-8")) as Partial<T>;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Atomically replace a state file with `data` as JSON. */
+export async function writeNextcloudTalkStateFile(filePath: string, data: unknown): Promise<void> {
+  const tmpPath = `${filePath}.tmp`;
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(tmpPath, JSON.stringify(data), "utf-8");
+  await rename(tmpPath, filePath);
+}
+
+/**
+ * Coalesced writes of one state file: `schedule` saves the current `snapshot` about a
+ * second later, `flush` saves it now. Writes never overlap.
+ */
+export function createNextcloudTalkStateWriter(params: {
+  filePath: string;
+  snapshot: () => unknown;
+  onError?: (error: unknown) => void;
+  /** Let the process exit before a scheduled write lands (flush on stop instead). */
+  unref?: boolean;
+}): { schedule: () => void; flush: () => Promise<void> } {
+  const { filePath, snapshot, onError } = params;
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    saving = saving
+      .then(() => writeNextcloudTalkStateFile(filePath, snapshot()))
+      .catch((err) => onError?.(err));
+    return saving;
+  };
+
+  const schedule = () => {
+    if (!saveTimer) {
+      saveTimer = setTimeout(() => void flush(), SAVE_DELAY_MS);
+      if (params.unref) saveTimer.unref?.();
+    }
+  };
+
+  return { schedule, flush };
+}
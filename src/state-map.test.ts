@@ -0,0 +1,35 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createNextcloudTalkStateMap } from "./state-map.js";
+
+describe("nextcloud-talk state map", () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps the newest entries across a reload", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "nc-talk-state-"));
+    dirs.push(dir);
+    const filePath = join(dir, "account", "offered-files.json");
+
+    const first = createNextcloudTalkStateMap<{ name: string }>({ filePath, maxEntries: 2 });
+    first.set("1", { name: "a.png" });
+    first.set("4", { name: "d.png" });
+    first.delete("4");
+    first.set("2", { name: "b.png" });
+    first.set("3", { name: "c.png" });
+    await first.flush();
+
+    const reloaded = createNextcloudTalkStateMap<{ name: string }>({ filePath, maxEntries: 2 });
+    expect(reloaded.has("1")).toBe(false);
+    expect(reloaded.has("4")).toBe(false);
+    expect(reloaded.get("2")).toEqual({ name: "b.png" });
+    expect(reloaded.get("3")).toEqual({ name: "c.png" });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Small persisted key/value records for an account (files offered to the agent,
+ * messages the bot sent), stored as JSON under the OpenClaw state dir so they
+ * survive a restart. Bounded: the oldest entries are evicted first. Writes are
+ * coalesced.
+ */
+
+import { createNextcloudTalkStateWriter, readNextcloudTalkStateFile } from "./state-file.js";
+
+export type NextcloudTalkStateMap<T> = {
+  get: (key: string) => T | undefined;
+  has: (key: string) => boolean;
+  /** Insert or refresh an entry, evicting the oldest one when full. */
+  set: (key: string, value: T) => void;
+  delete: (key: string) => void;
+  /** Write pending changes to disk. */
+  flush: () => Promise<void>;
+};
+
+type StateMapFile<T> = {
+  version: 1;
+  entries: Array<[string, T]>;
+};
+
+export function createNextcloudTalkStateMap<T>(params: {
+  filePath: string;
+  maxEntries: number;
+  onError?: (error: unknown) => void;
+}): NextcloudTalkStateMap<T> {
+  const { filePath, maxEntries, onError } = params;
+  const stored = readNextcloudTalkStateFile<StateMapFile<T>>(filePath)?.entries;
+  const entries = new Map<string, T>(Array.isArray(stored) ? stored.slice(-maxEntries) : []);
+  // Not unref'd: a pending write still lands when the process exits on its own.
+  const writer = createNextcloudTalkStateWriter({
+    filePath,
+    snapshot: (): StateMapFile<T> => ({ version: 1, entries: [...entries] }),
+    onError,
+  });
+
+  const set = (key: string, value: T) => {
+    entries.delete(key);
+    if (entries.size >= maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest !== undefined) entries.delete(oldest);
+    }
+    entries.set(key, value);
+    writer.schedule();
+  };
+
+  const remove = (key: string) => {
+    if (entries.delete(key)) {
+      writer.schedule();
+    }
+  };
+
+  return {
+    get: (key) => entries.get(key),
+    has: (key) => entries.has(key),
+    set,
+    delete: remove,
+    flush: writer.flush,
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createNextcloudTalkEditStream,
+  type NextcloudTalkEditStreamSendOptions,
+} from "./stream-edit.js";
+
+function setup(overrides: { maxLength?: number; editError?: Error } = {}) {
+  let clock = 0;
+  let nextId = 100;
+  const sent: string[] = [];
+  const sendOptions: NextcloudTalkEditStreamSendOptions[] = [];
+  const edits: Array<[string, string]> = [];
+  const onFallback = vi.fn();
+  const stream = createNextcloudTalkEditStream({
+    send: async (text, options) => {
+      sent.push(text);
+      sendOptions.push(options);
+      return { messageId: String(nextId++) };
+    },
+    edit: async (messageId, text) => {
+      if (overrides.editError) throw overrides.editError;
+      edits.push([messageId, text]);
+    },
+    intervalMs: 1000,
+    maxLength: overrides.maxLength ?? 4000,
+    isEditUnsupported: (err) =>
+      err instanceof Error && "editUnsupported" in err && err.editUnsupported === true,
+    onFallback,
+    now: () => clock,
+  });
+  const advance = (ms: number) => {
+    clock += ms;
+  };
+  return { stream, sent, sendOptions, edits, onFallback, advance };
+}
+
+describe("nextcloud-talk edit streaming", () => {
+  it("posts the first block and appends later blocks by editing", async () => {
+    const { stream, sent, edits, advance } = setup();
+    await stream.push("Hello");
+    advance(1500);
+    await stream.push("world");
+    await stream.finish();
+
+    expect(sent).toEqual(["Hello"]);
+    expect(edits).toEqual([["100", "Hello\n\nworld"]]);
+  });
+
+  it("throttles edits and applies the latest text on finish", async () => {
+    vi.useFakeTimers();
+    try {
+      const { stream, sent, edits } = setup();
+      await stream.push("one");
+      await stream.push("two");
+      await stream.push("three");
+      expect(edits).toEqual([]);
+      await stream.finish();
+
+      expect(sent).toEqual(["one"]);
+      expect(edits).toEqual([["100", "one\n\ntwo\n\nthree"]]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("starts a new message at the length limit", async () => {
+    const { stream, sent, edits, advance } = setup({ maxLength: 12 });
+    await stream.push("first");
+    advance(1500);
+    await stream.push("second");
+    await stream.finish();
+
+    expect(sent).toEqual(["first", "second"]);
+    expect(edits).toEqual([]);
+  });
+
+  it("starts a new message for a block replying to a different message", async () => {
+    const { stream, sent, sendOptions, edits, advance } = setup();
+    await stream.push("first", { replyTo: "7" });
+    advance(1500);
+    await stream.push("second", { replyTo: "7" });
+    await stream.push("answer", { replyTo: "9" });
+    await stream.finish();
+
+    expect(sent).toEqual(["first", "answer"]);
+    expect(sendOptions).toEqual([{ replyTo: "7" }, { replyTo: "9" }]);
+    expect(edits).toEqual([["100", "first\n\nsecond"]]);
+  });
+
+  it("posts a notifying block as a new message after silent ones", async () => {
+    const { stream, sent, sendOptions, advance } = setup();
+    await stream.push("thinking", { silent: true });
+    advance(1500);
+    await stream.push("answer", { silent: false });
+    await stream.finish();
+
+    expect(sent).toEqual(["thinking", "answer"]);
+    expect(sendOptions).toEqual([{ silent: true }, { silent: false }]);
+  });
+
+  it("falls back to new messages when edits are unsupported", async () => {
+    const error = Object.assign(new Error("405"), { editUnsupported: true });
+    const { stream, sent, onFallback, advance } = setup({ editError: error });
+    await stream.push("first");
+    advance(1500);
+    await stream.push("second");
+    await stream.push("third");
+    await stream.finish();
+
+    expect(sent).toEqual(["first", "second", "third"]);
+    expect(onFallback).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Edit-in-place block streaming: the first streamed block posts a message and later
+ * blocks are appended to it by editing, at most once per interval. When the combined
+ * text would exceed the message length limit, or the server cannot edit bot messages,
+ * streaming continues with new messages. Blocks sent with different options (the
+ * message they reply to, or whether they notify) are never merged into one message.
+ */
+
+const BLOCK_SEPARATOR = "\n\n";
+
+export type NextcloudTalkEditStreamSendOptions = {
+  /** Message id the block replies to. */
+  replyTo?: string;
+  /** Post without notifying room members. */
+  silent?: boolean;
+};
+
+export type NextcloudTalkEditStream = {
+  /** Append a streamed block. */
+  push: (text: string, options?: NextcloudTalkEditStreamSendOptions) => Promise<void>;
+  /** Apply any pending edit. Call once the reply is complete. */
+  finish: () => Promise<void>;
+};
+
+function sameSendOptions(
+  a: NextcloudTalkEditStreamSendOptions,
+  b: NextcloudTalkEditStreamSendOptions,
+): boolean {
+  return a.replyTo === b.replyTo && Boolean(a.silent) === Boolean(b.silent);
+}
+
+export function createNextcloudTalkEditStream(params: {
+  send: (
+    text: string,
+    options: NextcloudTalkEditStreamSendOptions,
+  ) => Promise<{ messageId: string }>;
+  edit: (messageId: string, text: string) => Promise<void>;
+  /** Minimum time between edits of the same message. */
+  intervalMs: number;
+  /** Longest text a single message may grow to. */
+  maxLength: number;
+  /** Whether an edit error means editing is not supported at all. */
+  isEditUnsupported?: (err: unknown) => boolean;
+  /** Called once when streaming falls back to new messages. */
+  onFallback?: (err: unknown) => void;
+  now?: () => number;
+}): NextcloudTalkEditStream {
+  const now = params.now ?? Date.now;
+  let current:
+    | {
+        messageId: string;
+        shown: string;
+        text: string;
+        options: NextcloudTalkEditStreamSendOptions;
+      }
+    | undefined;
+  let lastEditAt = 0;
+  let editingSupported = true;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Error from a timer-driven edit, reported by the next push or finish.
+  let failure: unknown;
+  // Serializes sends and edits so they reach Talk in order.
+  let chain: Promise<void> = Promise.resolve();
+
+  const enqueue = (task: () => Promise<void>): Promise<void> => {
+    const run = chain.then(() => {
+      if (failure !== undefined) {
+        const err = failure;
+        failure = undefined;
+        throw err;
+      }
+      return task();
+    });
+    chain = run.catch(() => undefined);
+    return run;
+  };
+
+  const post = async (text: string, options: NextcloudTalkEditStreamSendOptions) => {
+    const { messageId } = await params.send(text, options);
+    current =
+      messageId && messageId !== "unknown" ? { messageId, shown: text, text, options } : undefined;
+    lastEditAt = now();
+  };
+
+  const flushEdit = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    if (!current || current.text === current.shown) {
+      return;
+    }
+    const target = current;
+    try {
+      await params.edit(target.messageId, target.text);
+      target.shown = target.text;
+      lastEditAt = now();
+    } catch (err) {
+      if (!params.isEditUnsupported?.(err)) {
+        throw err;
+      }
+      editingSupported = false;
+      params.onFallback?.(err);
+      // Post what the edit would have shown as a new message.
+      const unseen = target.text.slice(target.shown.length).replace(/^\s+/, "");
+      current = undefined;
+      if (unseen) {
+        await params.send(unseen, target.options);
+      }
+    }
+  };
+
+  const push = (text: string, options: NextcloudTalkEditStreamSendOptions = {}) =>
+    enqueue(async () => {
+      if (!text.trim()) {
+        return;
+      }
+      if (!editingSupported) {
+        await params.send(text, options);
+        return;
+      }
+      const combined =
+        current && sameSendOptions(current.options, options)
+          ? `${current.text}${BLOCK_SEPARATOR}${text}`
+          : undefined;
+      if (!current || !combined || combined.length > params.maxLength) {
+        await flushEdit();
+        await post(text, options);
+        return;
+      }
+      current.text = combined;
+      const wait = lastEditAt + params.intervalMs - now();
+      if (wait <= 0) {
+        await flushEdit();
+      } else if (!timer) {
+        timer = setTimeout(() => {
+          timer = undefined;
+          enqueue(flushEdit).catch((err) => {
+            failure = err;
+          });
+        }, wait);
+      }
+    });
+
+  const finish = () => enqueue(flushEdit);
+
+  return { push, finish };
+}
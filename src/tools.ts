@@ -0,0 +1,38 @@
+import { Type } from "@sinclair/typebox";
+import { jsonResult, type ChannelAgentTool, type OpenClawConfig } from "openclaw/plugin-sdk";
+import { resolveNextcloudTalkAccount } from "./accounts.js";
+import { fetchNextcloudTalkOriginalAttachment } from "./attachments.js";
+import { getNextcloudTalkRuntime } from "./runtime.js";
+import type { CoreConfig } from "./types.js";
+
+const DownloadFileToolSchema = Type.Object(
+  {
+    fileId: Type.String({ description: "File id from a resized preview note" }),
+    accountId: Type.Optional(Type.String({ description: "Nextcloud Talk account id" })),
+  },
+  { additionalProperties: false },
+);
+
+/**
+ * Agent tool that downloads the original of a file delivered as a resized preview.
+ * Message actions are limited to the core action names, so this is a channel tool.
+ */
+export function createNextcloudTalkDownloadFileTool(cfg?: OpenClawConfig): ChannelAgentTool {
+  return {
+    name: "nextcloud_talk_download_file",
+    label: "Nextcloud Talk download file",
+    description:
+      "Download the full-size original of a Nextcloud Talk file that was attached as a " +
+      "resized preview. Pass the fileId from the preview note.",
+    parameters: DownloadFileToolSchema,
+    execute: async (_toolCallId, params) => {
+      const { fileId, accountId } = params as { fileId: string; accountId?: string };
+      const account = resolveNextcloudTalkAccount({
+        cfg: (cfg ?? getNextcloudTalkRuntime().config.loadConfig()) as CoreConfig,
+        accountId,
+      });
+      const file = await fetchNextcloudTalkOriginalAttachment({ account, fileId });
+      return jsonResult({ ok: true, fileId, ...file });
+    },
+  };
+}
@@ -0,0 +1,98 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  buildNextcloudTalkTranscriptionArgs,
+  resolveNextcloudTalkVoiceTranscripts,
+  transcribeNextcloudTalkAudio,
+} from "./transcription.js";
+
+describe("nextcloud-talk transcription", () => {
+  let dir: string;
+  let audioPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "nextcloud-talk-transcription-"));
+    audioPath = join(dir, "voice.ogg");
+    await writeFile(audioPath, Buffer.from("OggS"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("substitutes or appends the audio path in command arguments", () => {
+    expect(
+      buildNextcloudTalkTranscriptionArgs(["-m", "model.bin", "-f", "{file}"], "/a.ogg"),
+    ).toEqual(["-m", "model.bin", "-f", "/a.ogg"]);
+    expect(buildNextcloudTalkTranscriptionArgs(["--no-timestamps"], "/a.ogg")).toEqual([
+      "--no-timestamps",
+      "/a.ogg",
+    ]);
+  });
+
+  it("reads the transcript from a command's stdout", async () => {
+    const transcript = await transcribeNextcloudTalkAudio({
+      config: {
+        provider: "command",
+        command: process.execPath,
+        args: [
+          "-e",
+          "console.log(' heard ' + require('path').basename(process.argv[1]))",
+          "{file}",
+        ],
+      },
+      filePath: audioPath,
+    });
+    expect(transcript).toBe("heard voice.ogg");
+  });
+
+  it("posts the audio to an http endpoint", async () => {
+    const fetchMock = vi.fn<typeof fetch>(
+      async () =>
+        new Response(JSON.stringify({ text: "hello there" }), {
+          status: 200,
+          headers: { "content-type": "application/json" },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const transcript = await transcribeNextcloudTalkAudio({
+      config: {
+        provider: "http",
+        url: "https://stt.example.com/v1",
+        apiKey: "k",
+        model: "whisper-1",
+      },
+      filePath: audioPath,
+      contentType: "audio/ogg",
+    });
+
+    expect(transcript).toBe("hello there");
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://stt.example.com/v1");
+    expect(init?.headers).toEqual({ Authorization: "Bearer k" });
+    const form = init?.body;
+    if (!(form instanceof FormData)) throw new Error("expected a multipart body");
+    expect(form.get("model")).toBe("whisper-1");
+    expect((form.get("file") as File).name).toBe("voice.ogg");
+  });
+
+  it("labels transcripts of audio attachments and skips failures", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("just text", { status: 200 })),
+    );
+    const text = await resolveNextcloudTalkVoiceTranscripts({
+      config: { provider: "http", url: "https://stt.example.com/v1" },
+      media: [
+        { path: join(dir, "photo.png"), contentType: "image/png" },
+        { path: audioPath, contentType: "audio/ogg" },
+        { path: join(dir, "missing.ogg"), contentType: "audio/ogg" },
+      ],
+    });
+    expect(text).toBe("[Voice message transcript]\njust text");
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Voice message transcription. Talk voice messages arrive as audio file shares; once
+ * downloaded they are passed to the account's transcription provider — a local
+ * command (e.g. whisper.cpp) or an HTTP endpoint speaking the OpenAI-compatible
+ * `audio/transcriptions` multipart format — and the transcript is inlined in the body.
+ */
+
+import { execFile } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import type { RuntimeEnv } from "openclaw/plugin-sdk";
+import type { NextcloudTalkInboundMedia } from "./attachments.js";
+import type { NextcloudTalkTranscriptionConfig } from "./types.js";
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const COMMAND_MAX_OUTPUT_BYTES = 1024 * 1024;
+
+export function isNextcloudTalkAudio(contentType?: string): boolean {
+  return contentType?.split(";")[0].trim().toLowerCase().startsWith("audio/") ?? false;
+}
+
+/** Command arguments with `{file}` substituted, or the path appended when absent. */
+export function buildNextcloudTalkTranscriptionArgs(args: string[], filePath: string): string[] {
+  if (!args.some((arg) => arg.includes("{file}"))) {
+    return [...args, filePath];
+  }
+  return args.map((arg) => arg.replaceAll("{file}", filePath));
+}
+
+function runCommand(command: string, args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      { timeout: timeoutMs, maxBuffer: COMMAND_MAX_OUTPUT_BYTES, encoding: "utf-8" },
+      (err, stdout, stderr) => {
+        if (err) {
+          const detail = stderr.trim().split("\n").pop();
+          reject(new Error(detail ? `${err.message}: ${detail}` : err.message));
+          return;
+        }
+        resolve(stdout);
+      },
+    );
+  });
+}
+
+async function transcribeViaHttp(params: {
+  config: NextcloudTalkTranscriptionConfig & { url: string };
+  filePath: string;
+  contentType?: string;
+  timeoutMs: number;
+}): Promise<string> {
+  const { config, filePath, contentType } = params;
+  const form = new FormData();
+  const audio = await readFile(filePath);
+  form.append("file", new Blob([audio], { type: contentType }), basename(filePath));
+  if (config.model) {
+    form.append("model", config.model);
+  }
+  if (config.language) {
+    form.append("language", config.language);
+  }
+
+  const response = await fetch(config.url, {
+    method: "POST",
+    headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : undefined,
+    body: form,
+    signal: AbortSignal.timeout(params.timeoutMs),
+  });
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => "");
+    throw new Error(
+      `transcription endpoint returned ${response.status}: ${errorBody.slice(0, 200)}`,
+    );
+  }
+  if (response.headers.get("content-type")?.includes("application/json")) {
+    const payload = (await response.json()) as { text?: unknown };
+    if (typeof payload.text !== "string") {
+      throw new Error("transcription response has no text field");
+    }
+    return payload.text;
+  }
+  return response.text();
+}
+
+/** Transcribe one audio file with the configured provider. Throws on failure. */
+export async function transcribeNextcloudTalkAudio(params: {
+  config: NextcloudTalkTranscriptionConfig;
+  filePath: string;
+  contentType?: string;
+}): Promise<string> {
+  const { config, filePath, contentType } = params;
+  const timeoutMs = (config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+  let transcript: string;
+  if (config.provider === "command") {
+    if (!config.command) {
+      throw new Error("transcription.command is required for the command provider");
+    }
+    const args = buildNextcloudTalkTranscriptionArgs(config.args ?? [], filePath);
+    transcript = await runCommand(config.command, args, timeoutMs);
+  } else {
+    if (!config.url) {
+      throw new Error("transcription.url is required for the http provider");
+    }
+    transcript = await transcribeViaHttp({
+      config: { ...config, url: config.url },
+      filePath,
+      contentType,
+      timeoutMs,
+    });
+  }
+  return transcript.trim();
+}
+
+/**
+ * Transcribe every audio attachment. Returns labelled transcript lines for the agent
+ * body; attachments that fail to transcribe are logged and left as plain audio.
+ */
+export async function resolveNextcloudTalkVoiceTranscripts(params: {
+  config?: NextcloudTalkTranscriptionConfig;
+  media: NextcloudTalkInboundMedia[];
+  runtime?: RuntimeEnv;
+}): Promise<string> {
+  const { config, media, runtime } = params;
+  if (!config || config.enabled === false) {
+    return "";
+  }
+  const lines: string[] = [];
+  for (const item of media) {
+    if (!isNextcloudTalkAudio(item.contentType)) {
+      continue;
+    }
+    try {
+      const transcript = await transcribeNextcloudTalkAudio({
+        config,
+        filePath: item.path,
+        contentType: item.contentType,
+      });
+      lines.push(
+        transcript
+          ? `[Voice message transcript]\n${transcript}`
+          : "[Voice message transcript: no speech detected]",
+      );
+    } catch (err) {
+      runtime?.log?.(
+        `nextcloud-talk: voice message not transcribed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
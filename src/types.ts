@@ -7,8 +7,124 @@ import type {
 
 export type { DmPolicy, GroupPolicy };
 
+/** What a full room queue does with one more message. */
+export type NextcloudTalkQueueOverflow = "drop-oldest" | "drop-newest" | "merge";
+
+export type NextcloudTalkInboundQueueConfig = {
+  /** Rooms processed at the same time for this account. Default: 4. */
+  maxConcurrentRooms?: number;
+  /** Messages kept waiting per room (or thread). Default: 20. */
+  maxDepth?: number;
+  /**
+   * Full queue handling: "drop-oldest" (default), "drop-newest", or "merge"
+   * (fold into the last queued message from the same sender, else drop oldest).
+   */
+  overflow?: NextcloudTalkQueueOverflow;
+  /**
+   * Merge consecutive messages from the same sender in a room that arrive within this
+   * many milliseconds into one turn. Control commands skip the window. Default: 0 (off).
+   */
+  debounceMs?: number;
+  /** Longest a debounced batch is held after its first message. Default: 4 × `debounceMs`. */
+  debounceMaxWaitMs?: number;
+};
+
+export type NextcloudTalkWebhookTlsConfig = {
+  /** PEM certificate chain file. Reloaded when it changes. */
+  certFile: string;
+  /** PEM private key file. Reloaded when it changes. */
+  keyFile: string;
+  /** PEM CA bundle used to verify client certificates. */
+  caFile?: string;
+  /** Require Nextcloud to present a client certificate signed by `caFile`. Default: false. */
+  requireClientCert?: boolean;
+};
+
+export type NextcloudTalkCatchUpConfig = {
+  /** Replay messages missed while the gateway was down. Default: true (needs apiUser). */
+  enabled?: boolean;
+  /** Skip missed messages older than this. Default: 60. */
+  maxAgeMinutes?: number;
+  /** Newest messages considered per room. Default: 20. */
+  maxMessages?: number;
+};
+
+export type NextcloudTalkTranscriptionConfig = {
+  /** Transcribe voice messages. Default: true when this section is present. */
+  enabled?: boolean;
+  /** "command" runs a local binary (e.g. whisper.cpp); "http" posts to an endpoint. */
+  provider: "command" | "http";
+  /** Executable for the command provider; the transcript is read from stdout. */
+  command?: string;
+  /** Command arguments; `{file}` is replaced with the audio path (appended when absent). */
+  args?: string[];
+  /** Endpoint for the http provider (OpenAI-compatible multipart `file` upload). */
+  url?: string;
+  /** Bearer token for the http provider. */
+  apiKey?: string;
+  /** `model` form field for the http provider. */
+  model?: string;
+  /** `language` form field (ISO-639-1) for the http provider. */
+  language?: string;
+  /** Per-message transcription timeout. Default: 60. */
+  timeoutSeconds?: number;
+};
+
+/**
+ * How guests are handled: "deny" drops their messages, "read-only" adds them to the
+ * room's context without replying, "allow" answers them like allowlisted senders.
+ */
+export type NextcloudTalkGuestPolicy = "deny" | "read-only" | "allow";
+
+export type NextcloudTalkLoopProtectionConfig = {
+  /** Run the per-room circuit breaker. Default: true. */
+  enabled?: boolean;
+  /** Consecutive rapid turns that open the breaker. Default: 6. */
+  maxRapidTurns?: number;
+  /** A bot message this soon after our last reply is a rapid turn. Default: 5. */
+  rapidReplySeconds?: number;
+  /** How long an open breaker ignores bot messages in the room. Default: 300. */
+  cooldownSeconds?: number;
+};
+
+export type NextcloudTalkRetryConfig = {
+  /** Total attempts per request, including the first. Default: 3. */
+  attempts?: number;
+  /** First backoff delay. Default: 500. */
+  minDelayMs?: number;
+  /** Longest backoff delay; a longer `Retry-After` fails the send. Default: 30000. */
+  maxDelayMs?: number;
+  /** Random spread applied to each delay (0-1). Default: 0.2. */
+  jitter?: number;
+};
+
+/** How an edit inside the edit window is handled. */
+export type NextcloudTalkEditPolicy = "rerun" | "note" | "ignore";
+
+/**
+ * Kinds of bot message a room can send silently: final replies, streamed intermediate
+ * blocks (including edit-mode stream messages), pairing replies and proactive posts
+ * (sends not answering an inbound message, e.g. scheduled reports).
+ */
+export type NextcloudTalkSilentKind = "reply" | "block" | "pairing" | "proactive";
+
 export type NextcloudTalkRoomConfig = {
   requireMention?: boolean;
+  /** Whether an `@all` mention counts as mentioning the bot. Default: true. */
+  mentionAll?: boolean;
+  /** Guest handling in this room; overrides the account's `guestPolicy`. */
+  guestPolicy?: NextcloudTalkGuestPolicy;
+  /**
+   * Bot actors answered in this room (`*` or bot ids). Messages from other bots are
+   * dropped. Polling and catch-up never ingest bot messages.
+   */
+  allowBots?: string[];
+  /**
+   * Post bot messages as silent messages (no notifications): `true` for all of them, or
+   * the kinds to silence. Explicit `silent` send options take precedence. Proactive
+   * sends only know the room token, so they use token-keyed or `*` entries only.
+   */
+  silent?: boolean | NextcloudTalkSilentKind[];
   /** Optional tool policy overrides for this room. */
   tools?: { allow?: string[]; deny?: string[] };
   /** If specified, only load these skills for this room. Omit = all skills; empty = no skills. */
@@ -28,6 +144,11 @@ export type NextcloudTalkAccountConfig = {
   enabled?: boolean;
   /** Base URL of the Nextcloud instance (e.g., "https://cloud.example.com"). */
   baseUrl?: string;
+  /**
+   * Additional Nextcloud server URLs accepted in the X-Nextcloud-Talk-Backend header.
+   * `baseUrl` is always accepted.
+   */
+  allowedBackends?: string[];
   /** Bot shared secret from occ talk:bot:install output. */
   botSecret?: string;
   /** Path to file containing bot secret (for secret managers). */
@@ -38,16 +159,54 @@ export type NextcloudTalkAccountConfig = {
   apiPassword?: string;
   /** Path to file containing API password/app password. */
   apiPasswordFile?: string;
+  /** Skip TLS certificate checks for reply-quote lookups and typing signaling (self-signed). */
+  allowInsecureSsl?: boolean;
   /** Direct message policy (default: pairing). */
   dmPolicy?: DmPolicy;
+  /**
+   * How inbound messages arrive: "webhook" (default) or "polling", which long-polls the
+   * chat API of every configured room (keyed by room token) with apiUser/apiPassword.
+   * Polling accounts still join the shared listener for /healthz, /readyz and /metrics.
+   */
+  mode?: "webhook" | "polling";
+  /** Long-poll timeout per chat API request in polling mode. Default: 30. */
+  pollTimeoutSeconds?: number;
   /** Webhook server port. Default: 8788. */
   webhookPort?: number;
+  /**
+   * "shared" (default) serves every account with the same host/port from one listener,
+   * routed by path and backend header. "dedicated" opens a listener for this account only.
+   */
+  webhookListener?: "shared" | "dedicated";
   /** Webhook server host. Default: "0.0.0.0". */
   webhookHost?: string;
+  /** Listen on this Unix domain socket instead of webhookHost/webhookPort. */
+  webhookSocketPath?: string;
+  /** Serve the webhook over HTTPS with these certificate files. */
+  webhookTls?: NextcloudTalkWebhookTlsConfig;
   /** Webhook endpoint path. Default: "/nextcloud-talk-webhook". */
   webhookPath?: string;
   /** Public URL for the webhook (used if behind reverse proxy). */
   webhookPublicUrl?: string;
+  /**
+   * Seconds to remember webhook nonces for replay rejection. Default: 600. Delivered
+   * message ids are kept until the entry bound evicts them; both survive a restart.
+   */
+  webhookReplayWindowSeconds?: number;
+  /** Serve Prometheus metrics for this account at `/metrics` on the webhook listener. */
+  webhookMetrics?: boolean;
+  /** Bearer token `/metrics` requests must send; the endpoint stays off without one. */
+  webhookMetricsToken?: string;
+  /**
+   * Additional actor ids that address the bot when mentioned (e.g. a dedicated Nextcloud
+   * user). `apiUser` is always included.
+   */
+  mentionIds?: string[];
+  /**
+   * Guest handling in rooms. Unset: guests go through the sender allowlists like
+   * everyone else (match them with `guest:*` or `guest:<id>`).
+   */
+  guestPolicy?: NextcloudTalkGuestPolicy;
   /** Optional allowlist of user IDs allowed to DM the bot. */
   allowFrom?: string[];
   /** Optional allowlist for Nextcloud Talk room senders (user ids). */
@@ -70,10 +229,53 @@ export type NextcloudTalkAccountConfig = {
   blockStreaming?: boolean;
   /** Merge streamed block replies before sending. */
   blockStreamingCoalesce?: BlockStreamingCoalesceConfig;
+  /**
+   * How streamed blocks appear: "messages" (default) posts each block as a new message;
+   * "edit" posts the first block and appends later ones by editing that message, moving
+   * on to a new message at `textChunkLimit` or when the server cannot edit bot messages.
+   */
+  blockStreamingMode?: "messages" | "edit";
+  /** Minimum time between edits in "edit" streaming mode. Default: 1000. */
+  blockStreamingEditIntervalMs?: number;
   /** Outbound response prefix override for this channel/account. */
   responsePrefix?: string;
   /** Media upload max size in MB. */
   mediaMaxMb?: number;
+  /**
+   * Longest edge in pixels of the resized previews fetched for shared files that have
+   * one; originals are then only downloaded on request. 0 always downloads originals.
+   * Default: 1024.
+   */
+  mediaPreviewMaxDimension?: number;
+  /**
+   * Folder in the API user's storage that outbound media is uploaded to before being
+   * shared into the room. Default: "Talk".
+   */
+  mediaUploadFolder?: string;
+  /**
+   * What to do when a user edits a message within `editWindowSeconds`:
+   * "rerun" answers the edited text again, "note" records a correction for the next turn,
+   * "ignore" drops the edit. Default: "note".
+   */
+  editPolicy?: NextcloudTalkEditPolicy;
+  /** Seconds after the original message during which `editPolicy` applies. Default: 120. */
+  editWindowSeconds?: number;
+  /** Ordering and concurrency limits for inbound agent turns. */
+  inboundQueue?: NextcloudTalkInboundQueueConfig;
+  /**
+   * Seconds to let running agent turns finish on shutdown. Queued messages that never
+   * started are saved and resumed on the next start; turns still running are not.
+   * Default: 30.
+   */
+  shutdownDrainSeconds?: number;
+  /** Missed-message catch-up on startup. */
+  catchUp?: NextcloudTalkCatchUpConfig;
+  /** Retries for outbound requests (429, 503, connection errors; 502/504 for edits). */
+  retry?: NextcloudTalkRetryConfig;
+  /** Circuit breaker against reply loops with other bots. */
+  loopProtection?: NextcloudTalkLoopProtectionConfig;
+  /** Transcribe voice messages and inline the transcript in the agent body. */
+  transcription?: NextcloudTalkTranscriptionConfig;
 };
 
 export type NextcloudTalkConfig = {
@@ -115,6 +317,8 @@ export type NextcloudTalkObject = {
   mediaType: string;
   /** Thread ID — present when message is part of an NC Talk thread (NC Talk 20+). */
   threadId?: string;
+  /** Reference id the sender attached to the message, if any. */
+  referenceId?: string;
 };
 
 /** Target conversation/room. */
@@ -126,6 +330,71 @@ export type NextcloudTalkTarget = {
   name: string;
 };
 
+/** A rich object parameter referenced from a message as `{key}`. */
+export type NextcloudTalkRichObjectParameter = {
+  type: string;
+  id: string;
+  name: string;
+  size?: number | string;
+  path?: string;
+  link?: string;
+  mimetype?: string;
+  "preview-available"?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * A rich object parameter normalized by `kind`. Raw Talk type names are mapped
+ * ("user-group" and "group" → "group", "circle" → "team", "talk-poll" → "poll");
+ * anything unrecognized is kept as "unknown" with its original `type`.
+ */
+export type NextcloudTalkRichObject =
+  | {
+      kind: "file";
+      key: string;
+      id: string;
+      name: string;
+      path?: string;
+      link?: string;
+      mimetype?: string;
+      size?: number;
+      previewAvailable: boolean;
+    }
+  | { kind: "user"; key: string; id: string; name: string; server?: string }
+  | { kind: "guest"; key: string; id: string; name: string }
+  | { kind: "group"; key: string; id: string; name: string }
+  | { kind: "team"; key: string; id: string; name: string; link?: string }
+  | { kind: "email"; key: string; id: string; name: string }
+  /** A mention of every participant of the conversation (`@all`), named after the room. */
+  | { kind: "call"; key: string; roomToken: string; name: string; callType?: string }
+  | { kind: "poll"; key: string; pollId: string; question: string }
+  | {
+      kind: "deck-card";
+      key: string;
+      cardId: string;
+      name: string;
+      board?: string;
+      boardId?: string;
+      stack?: string;
+      stackId?: string;
+      link?: string;
+    }
+  | {
+      kind: "geo-location";
+      key: string;
+      name: string;
+      latitude?: number;
+      longitude?: number;
+    }
+  | { kind: "calendar-event"; key: string; id: string; name: string; link?: string }
+  | { kind: "unknown"; key: string; type: string; id: string; name: string };
+
+/** JSON-encoded message body with rich object placeholders. */
+export type NextcloudTalkRichContent = {
+  message: string;
+  parameters?: Record<string, NextcloudTalkRichObjectParameter>;
+};
+
 /** Incoming webhook payload from Nextcloud Talk. */
 export type NextcloudTalkWebhookPayload = {
   type: "Create" | "Update" | "Delete";
@@ -139,21 +408,38 @@ export type NextcloudTalkSendResult = {
   messageId: string;
   roomToken: string;
   timestamp?: number;
+  /** HTTP attempts made, including retries. */
+  attempts?: number;
 };
 
+/** Kind of inbound event: a new message, an edit, or a deletion. */
+export type NextcloudTalkInboundEvent = "create" | "edit" | "delete";
+
 /** Parsed incoming message context. */
 export type NextcloudTalkInboundMessage = {
+  /** Event kind. Omitted means "create". */
+  event?: NextcloudTalkInboundEvent;
   messageId: string;
   roomToken: string;
   roomName: string;
   senderId: string;
   senderName: string;
   text: string;
+  /** `text` with mention placeholders left out; set when the message mentions anyone. */
+  mentionFreeText?: string;
   mediaType: string;
   timestamp: number;
   isGroupChat: boolean;
+  /** File shares referenced by the message, if any. */
+  fileParameters?: NextcloudTalkRichObjectParameter[];
+  /** Every rich object referenced by the message (mentions, polls, locations, ...). */
+  richObjects?: NextcloudTalkRichObject[];
   /** Thread ID — present when message is part of an NC Talk thread (NC Talk 20+). */
   threadId?: string;
+  /** Reference id the sender attached; ours mark echoes of our own sends. */
+  referenceId?: string;
+  /** Ids of earlier messages folded into this one by debouncing, oldest first. */
+  mergedMessageIds?: string[];
 };
 
 /** Headers sent by Nextcloud Talk webhook. */
@@ -166,21 +452,60 @@ export type NextcloudTalkWebhookHeaders = {
   backend: string;
 };
 
+/** A signed webhook request the server refused to process. */
+export type NextcloudTalkWebhookRejection = {
+  status: number;
+  reason: string;
+  roomToken?: string;
+};
+
 /** Options for the webhook server. */
 export type NextcloudTalkWebhookServerOptions = {
   port: number;
   host: string;
+  /** Listen on a Unix domain socket instead of host/port. */
+  socketPath?: string;
+  tls?: NextcloudTalkWebhookTlsConfig;
   path: string;
   secret: string;
   maxBodyBytes?: number;
   readBody?: (req: import("node:http").IncomingMessage, maxBodyBytes: number) => Promise<string>;
   isBackendAllowed?: (backend: string) => boolean;
+  /** Rejects reused nonces and duplicate message deliveries. */
+  replayGuard?: import("./replay-guard.js").NextcloudTalkReplayGuard;
   shouldProcessMessage?: (message: NextcloudTalkInboundMessage) => boolean | Promise<boolean>;
   onMessage: (message: NextcloudTalkInboundMessage) => void | Promise<void>;
   onError?: (error: Error) => void;
+  /** Called when a signed request is rejected (replayed nonce, disallowed backend). */
+  onRejected?: (rejection: NextcloudTalkWebhookRejection) => void;
+  /** While true, webhooks are answered with 503 and Retry-After. */
+  isDraining?: () => boolean;
+  /** Bearer token that reads this account's series at `/metrics`; unset keeps it out. */
+  metricsToken?: string;
   abortSignal?: AbortSignal;
 };
 
+/** One account's endpoint on a (possibly shared) webhook listener. */
+export type NextcloudTalkWebhookRoute = Pick<
+  NextcloudTalkWebhookServerOptions,
+  | "path"
+  | "secret"
+  | "maxBodyBytes"
+  | "readBody"
+  | "isBackendAllowed"
+  | "replayGuard"
+  | "shouldProcessMessage"
+  | "onMessage"
+  | "onError"
+  | "onRejected"
+  | "isDraining"
+  | "metricsToken"
+> & {
+  accountId: string;
+  /** Serve only the status endpoints for this account (polling mode); never takes webhooks. */
+  statusOnly?: boolean;
+};
+
 /** Options for sending a message. */
 export type NextcloudTalkSendOptions = {
   baseUrl: string;
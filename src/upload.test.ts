@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  buildNextcloudTalkUploadName,
+  resolveNextcloudTalkUploadFolder,
+  shareNextcloudTalkFileToRoom,
+  uploadNextcloudTalkFile,
+} from "./upload.js";
+
+const credentials = { apiUser: "bot user", apiPassword: "secret" };
+
+describe("nextcloud-talk upload", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("builds unique upload names and normalizes the folder", () => {
+    expect(buildNextcloudTalkUploadName("/tmp/out/chart.png", 36)).toBe("10-chart.png");
+    expect(buildNextcloudTalkUploadName(undefined, 36)).toBe("10-attachment");
+    expect(resolveNextcloudTalkUploadFolder("/Bot/Outbox/")).toBe("Bot/Outbox");
+    expect(resolveNextcloudTalkUploadFolder(undefined)).toBe("Talk");
+  });
+
+  it("creates the folder and uploads the file over WebDAV", async () => {
+    const fetchMock = vi.fn(
+      async (_url: string, init?: RequestInit) =>
+        new Response("", { status: init?.method === "MKCOL" ? 405 : 201 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const path = await uploadNextcloudTalkFile({
+      baseUrl: "https://cloud.example.com",
+      credentials,
+      folder: "Talk",
+      fileName: "10-chart one.png",
+      buffer: Buffer.from("png"),
+      contentType: "image/png",
+    });
+
+    expect(path).toBe("Talk/10-chart one.png");
+    const [mkcolUrl] = fetchMock.mock.calls[0];
+    const [putUrl, putInit] = fetchMock.mock.calls[1];
+    expect(mkcolUrl).toBe("https://cloud.example.com/remote.php/dav/files/bot%20user/Talk");
+    expect(putUrl).toBe(
+      "https://cloud.example.com/remote.php/dav/files/bot%20user/Talk/10-chart%20one.png",
+    );
+    expect(putInit?.method).toBe("PUT");
+  });
+
+  it("shares the file into the room with the caption", async () => {
+    const fetchMock = vi.fn<typeof fetch>(
+      async () => new Response(JSON.stringify({ ocs: { data: { id: 77 } } }), { status: 200 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const result = await shareNextcloudTalkFileToRoom({
+      baseUrl: "https://cloud.example.com",
+      credentials,
+      path: "Talk/10-chart.png",
+      roomToken: "room123",
+      caption: "Here is the chart",
+      replyTo: "41",
+    });
+
+    expect(result).toEqual({ shareId: "77" });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://cloud.example.com/ocs/v2.php/apps/files_sharing/api/v1/shares");
+    expect(JSON.parse(String(init?.body))).toEqual({
+      path: "/Talk/10-chart.png",
+      shareType: 10,
+      shareWith: "room123",
+      talkMetaData: JSON.stringify({ caption: "Here is the chart", replyTo: 41 }),
+    });
+  });
+
+  it("throws when the share is rejected", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("nope", { status: 403 })),
+    );
+    await expect(
+      shareNextcloudTalkFileToRoom({
+        baseUrl: "https://cloud.example.com",
+        credentials,
+        path: "Talk/a.png",
+        roomToken: "room123",
+      }),
+    ).rejects.toThrow("share to room room123 failed (403) nope");
+  });
+});
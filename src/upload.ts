@@ -0,0 +1,122 @@
+/**
+ * Outbound file shares: upload a file to the API user's storage over WebDAV, then
+ * share it into a room through the files_sharing OCS API (share type 10, "Talk room").
+ * Talk posts the share as a file message, with the caption from `talkMetaData`.
+ */
+
+const UPLOAD_TIMEOUT_MS = 60_000;
+const TALK_ROOM_SHARE_TYPE = 10;
+const DEFAULT_UPLOAD_FOLDER = "Talk";
+
+type ApiCredentials = { apiUser: string; apiPassword: string };
+
+function authHeader(credentials: ApiCredentials): string {
+  const token = Buffer.from(`${credentials.apiUser}:${credentials.apiPassword}`, "utf-8");
+  return `Basic ${token.toString("base64")}`;
+}
+
+function encodePath(path: string): string {
+  return path.split("/").filter(Boolean).map(encodeURIComponent).join("/");
+}
+
+/** Folder (relative to the API user's root) outbound uploads are stored in. */
+export function resolveNextcloudTalkUploadFolder(folder?: string): string {
+  return folder?.trim().replace(/^\/+|\/+$/g, "") || DEFAULT_UPLOAD_FOLDER;
+}
+
+/**
+ * File name for an upload, prefixed with a timestamp so repeated sends of `image.png`
+ * do not overwrite each other.
+ */
+export function buildNextcloudTalkUploadName(fileName: string | undefined, now = Date.now()) {
+  const base = (fileName ?? "").split(/[\\/]/).pop()?.trim() || "attachment";
+  return `${now.toString(36)}-${base}`;
+}
+
+/** Upload a file over WebDAV; returns its path relative to the user's root. */
+export async function uploadNextcloudTalkFile(params: {
+  baseUrl: string;
+  credentials: ApiCredentials;
+  folder: string;
+  fileName: string;
+  buffer: Buffer;
+  contentType?: string;
+}): Promise<string> {
+  const { baseUrl, credentials, folder, fileName } = params;
+  const davRoot = `${baseUrl}/remote.php/dav/files/${encodeURIComponent(credentials.apiUser)}`;
+  const headers = { Authorization: authHeader(credentials) };
+
+  // 405 means the folder already exists.
+  const mkcol = await fetch(`${davRoot}/${encodePath(folder)}`, {
+    method: "MKCOL",
+    headers,
+    signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS),
+  });
+  if (!mkcol.ok && mkcol.status !== 405) {
+    throw new Error(`WebDAV MKCOL ${folder} failed (${mkcol.status})`);
+  }
+
+  const path = `${folder}/${fileName}`;
+  const response = await fetch(`${davRoot}/${encodePath(path)}`, {
+    method: "PUT",
+    headers: {
+      ...headers,
+      "Content-Type": params.contentType ?? "application/octet-stream",
+    },
+    body: new Uint8Array(params.buffer),
+    signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`WebDAV upload failed (${response.status})`);
+  }
+  return path;
+}
+
+/** Share an uploaded file into a Talk room, posting `caption` as the file message text. */
+export async function shareNextcloudTalkFileToRoom(params: {
+  baseUrl: string;
+  credentials: ApiCredentials;
+  path: string;
+  roomToken: string;
+  caption?: string;
+  replyTo?: string;
+  silent?: boolean;
+}): Promise<{ shareId?: string }> {
+  const { baseUrl, credentials, roomToken } = params;
+  const talkMetaData: Record<string, unknown> = {};
+  if (params.caption?.trim()) {
+    talkMetaData.caption = params.caption.trim();
+  }
+  if (params.replyTo) {
+    talkMetaData.replyTo = Number(params.replyTo);
+  }
+  if (params.silent) {
+    talkMetaData.silent = true;
+  }
+
+  const response = await fetch(`${baseUrl}/ocs/v2.php/apps/files_sharing/api/v1/shares`, {
+    method: "POST",
+    headers: {
+      Authorization: authHeader(credentials),
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      "OCS-APIRequest": "true",
+    },
+    body: JSON.stringify({
+      path: `/${params.path}`,
+      shareType: TALK_ROOM_SHARE_TYPE,
+      shareWith: roomToken,
+      talkMetaData: JSON.stringify(talkMetaData),
+    }),
+    signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => "");
+    throw new Error(`share to room ${roomToken} failed (${response.status}) ${errorBody}`.trim());
+  }
+  const data = (await response.json().catch(() => ({}))) as {
+    ocs?: { data?: { id?: string | number } };
+  };
+  const shareId = data.ocs?.data?.id;
+  return { shareId: shareId != null ? String(shareId) : undefined };
+}
@@ -0,0 +1,74 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { request } from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  createNextcloudTalkListenerServer,
+  listenNextcloudTalkWebhookServer,
+  resolveNextcloudTalkListenKey,
+} from "./webhook-listener.js";
+
+function getOverSocket(socketPath: string, path: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const req = request({ socketPath, path, method: "GET" }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("nextcloud-talk webhook listener", () => {
+  const cleanups: Array<() => void> = [];
+
+  afterEach(() => {
+    for (const cleanup of cleanups.splice(0)) {
+      cleanup();
+    }
+  });
+
+  it("keys listeners by host and port or socket path", () => {
+    expect(resolveNextcloudTalkListenKey({ host: "0.0.0.0", port: 8788 })).toBe("0.0.0.0:8788");
+    expect(resolveNextcloudTalkListenKey({ socketPath: "/run/nc.sock" })).toBe("unix:/run/nc.sock");
+  });
+
+  it("serves requests on a unix domain socket", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "nc-talk-socket-"));
+    const socketPath = join(dir, "webhook.sock");
+    const { server, dispose } = createNextcloudTalkListenerServer({
+      handler: (req, res) => {
+        res.end(`hello ${req.url}`);
+      },
+    });
+    cleanups.push(() => {
+      dispose();
+      server.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    await listenNextcloudTalkWebhookServer(server, { socketPath });
+
+    expect(await getOverSocket(socketPath, "/healthz")).toBe("hello /healthz");
+  });
+
+  it("refuses a socket another process is still listening on", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "nc-talk-socket-"));
+    const socketPath = join(dir, "webhook.sock");
+    const first = createNextcloudTalkListenerServer({ handler: (_req, res) => res.end("first") });
+    const second = createNextcloudTalkListenerServer({ handler: (_req, res) => res.end("second") });
+    cleanups.push(() => {
+      first.server.close();
+      second.server.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    await listenNextcloudTalkWebhookServer(first.server, { socketPath });
+    await expect(listenNextcloudTalkWebhookServer(second.server, { socketPath })).rejects.toThrow(
+      /in use/,
+    );
+    expect(await getOverSocket(socketPath, "/")).toBe("first");
+  });
+});
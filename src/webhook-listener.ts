@@ -0,0 +1,137 @@
+/**
+ * Transport for the webhook server: plain HTTP, HTTPS with optional client
+ * certificates, or a Unix domain socket.
+ *
+ * TLS material is read from files and reloaded in place when any of them changes,
+ * so certificate renewals do not need a gateway restart.
+ */
+
+import { lstatSync, readFileSync, unlinkSync, unwatchFile, watchFile, type Stats } from "node:fs";
+import { createServer, type RequestListener, type Server } from "node:http";
+import { createServer as createHttpsServer, type Server as HttpsServer } from "node:https";
+import { connect } from "node:net";
+import type { NextcloudTalkWebhookTlsConfig } from "./types.js";
+
+export type NextcloudTalkListenerServer = Server | HttpsServer;
+
+/** Where a webhook listener accepts connections. */
+export type NextcloudTalkListenTarget = { port: number; host: string } | { socketPath: string };
+
+const TLS_WATCH_INTERVAL_MS = 5_000;
+
+function readTlsMaterial(tls: NextcloudTalkWebhookTlsConfig) {
+  return {
+    cert: readFileSync(tls.certFile),
+    key: readFileSync(tls.keyFile),
+    ...(tls.caFile ? { ca: readFileSync(tls.caFile) } : {}),
+  };
+}
+
+/** Stable key for a listen target; also used to detect conflicting shared listeners. */
+export function resolveNextcloudTalkListenKey(target: NextcloudTalkListenTarget): string {
+  return "socketPath" in target ? `unix:${target.socketPath}` : `${target.host}:${target.port}`;
+}
+
+/**
+ * Create the HTTP(S) server for a webhook listener. With `tls`, the certificate
+ * files are watched until `dispose` is called; reload failures keep the previous
+ * certificates and are reported through `onTlsReloadError`.
+ */
+export function createNextcloudTalkListenerServer(params: {
+  handler: RequestListener;
+  tls?: NextcloudTalkWebhookTlsConfig;
+  onTlsReloadError?: (error: Error) => void;
+}): { server: NextcloudTalkListenerServer; dispose: () => void } {
+  const { handler, tls } = params;
+  if (!tls) {
+    return { server: createServer(handler), dispose: () => {} };
+  }
+
+  const requireClientCert = tls.requireClientCert === true;
+  const server = createHttpsServer(
+    {
+      ...readTlsMaterial(tls),
+      requestCert: requireClientCert,
+      rejectUnauthorized: requireClientCert,
+    },
+    handler,
+  );
+
+  const files = [tls.certFile, tls.keyFile, tls.caFile].filter((file): file is string =>
+    Boolean(file),
+  );
+  const onChange = (curr: Stats, prev: Stats) => {
+    if (curr.mtimeMs === prev.mtimeMs) {
+      return;
+    }
+    try {
+      server.setSecureContext(readTlsMaterial(tls));
+    } catch (err) {
+      // Typically a renewal caught halfway (new cert, old key); the next change retries.
+      params.onTlsReloadError?.(err instanceof Error ? err : new Error(String(err)));
+    }
+  };
+  for (const file of files) {
+    watchFile(file, { persistent: false, interval: TLS_WATCH_INTERVAL_MS }, onChange);
+  }
+
+  const dispose = () => {
+    for (const file of files) {
+      unwatchFile(file, onChange);
+    }
+  };
+  return { server, dispose };
+}
+
+/**
+ * Remove a socket file left behind by a crashed gateway, which would otherwise fail
+ * the listen with EADDRINUSE. Throws when a live process still accepts connections
+ * on it, so a second gateway cannot take over another one's socket.
+ */
+async function removeStaleSocket(socketPath: string): Promise<void> {
+  try {
+    if (!lstatSync(socketPath).isSocket()) {
+      return;
+    }
+  } catch {
+    // Nothing to remove.
+    return;
+  }
+  const error = await new Promise<NodeJS.ErrnoException | undefined>((resolve) => {
+    const probe = connect(socketPath);
+    probe.once("connect", () => {
+      probe.destroy();
+      resolve(undefined);
+    });
+    probe.once("error", (err: NodeJS.ErrnoException) => resolve(err));
+  });
+  if (!error) {
+    throw new Error(`Unix socket ${socketPath} is in use by another process`);
+  }
+  if (error.code !== "ECONNREFUSED") {
+    throw error;
+  }
+  unlinkSync(socketPath);
+}
+
+export async function listenNextcloudTalkWebhookServer(
+  server: NextcloudTalkListenerServer,
+  target: NextcloudTalkListenTarget,
+): Promise<void> {
+  if ("socketPath" in target) {
+    await removeStaleSocket(target.socketPath);
+  }
+  return new Promise((resolve, reject) => {
+    const onError = (err: Error) => reject(err);
+    const onListening = () => {
+      server.off("error", onError);
+      resolve();
+    };
+    server.once("error", onError);
+    if ("socketPath" in target) {
+      server.listen(target.socketPath, onListening);
+    } else {
+      server.listen(target.port, target.host, onListening);
+    }
+  });
+}